@@ -14,6 +14,7 @@ export default function Home() {
   const [showProgress, setShowProgress] = useState(false)
   const [workflowResult, setWorkflowResult] = useState<WorkflowResult | null>(null)
   const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  const [failedWorkflowId, setFailedWorkflowId] = useState<string | null>(null)
   const [formData, setFormData] = useState({
     topic: '',
     targetAudience: '',
@@ -23,6 +24,7 @@ export default function Home() {
   const startWorkflowSequence = async () => {
     setIsGenerating(true)
     setErrorMessage(null)
+    setFailedWorkflowId(null)
     setWorkflowResult(null)
     setCurrentWorkflowId(null)
 
@@ -33,23 +35,32 @@ export default function Home() {
 
         for (let attempt = 1; attempt <= maxAttempts; attempt++) {
           try {
-            const response = await fetch(
-              apiUrl('/api/workflows/improvedEducationalContentWorkflow/start-async'),
-              {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                  inputData: formData,
-                  runtimeContext: {}
-                })
-              }
+            // Create the run first so its ID is known before the long-running start
+            const createResponse = await fetch(
+              apiUrl('/api/workflows/improvedEducationalContentWorkflow/create-run'),
+              { method: 'POST' }
             )
 
-            if (response.ok) {
-              const data = await response.json()
-              return { data }
+            let response = createResponse
+            if (createResponse.ok) {
+              const { runId } = await createResponse.json()
+              response = await fetch(
+                apiUrl(`/api/workflows/improvedEducationalContentWorkflow/start?runId=${encodeURIComponent(runId)}`),
+                {
+                  method: 'POST',
+                  headers: {
+                    'Content-Type': 'application/json',
+                  },
+                  body: JSON.stringify({
+                    inputData: formData,
+                    runtimeContext: {}
+                  })
+                }
+              )
+
+              if (response.ok) {
+                return { data: { runId } }
+              }
             }
 
             // Retry on gateway/server warmup errors
@@ -83,8 +94,7 @@ export default function Home() {
       const result = startResult.data
 
       console.log('Workflow started:', result)
-      const workflowId = result.workflowId || result.id || `edu-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-      setCurrentWorkflowId(workflowId)
+      setCurrentWorkflowId(result.runId)
       setShowProgress(true)
     } catch (error) {
       console.error('Error:', error)
@@ -99,6 +109,30 @@ export default function Home() {
     }
   }
 
+  // Starts a new run that keeps the failed run's outline and finished sections
+  const resumeWorkflow = async (workflowId: string) => {
+    setIsGenerating(true)
+    setErrorMessage(null)
+
+    try {
+      const response = await fetch(apiUrl(`/api/runs/${workflowId}/resume`), { method: 'POST' })
+      if (!response.ok) {
+        const errorText = await response.text()
+        throw new Error(errorText || `Failed with status ${response.status}`)
+      }
+
+      const { runId } = await response.json()
+      setFailedWorkflowId(null)
+      setCurrentWorkflowId(runId)
+      setShowProgress(true)
+    } catch (error) {
+      console.error('Error resuming workflow:', error)
+      setErrorMessage(error instanceof Error ? error.message : 'Unable to resume the workflow.')
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     await startWorkflowSequence()
@@ -126,6 +160,7 @@ export default function Home() {
         {showProgress && currentWorkflowId && (
           <div className="max-w-4xl mx-auto mb-8">
             <WorkflowProgress
+              key={currentWorkflowId}
               workflowId={currentWorkflowId}
               onComplete={(result) => {
                 console.log('Workflow completed:', result)
@@ -136,6 +171,7 @@ export default function Home() {
               onError={(error) => {
                 console.error('Workflow failed:', error)
                 setIsGenerating(false)
+                setFailedWorkflowId(currentWorkflowId)
                 setErrorMessage(error)
               }}
             />
@@ -162,6 +198,19 @@ export default function Home() {
                 >
                   Try Again
                 </Button>
+                {failedWorkflowId && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={isGenerating}
+                    onClick={() => {
+                      void resumeWorkflow(failedWorkflowId)
+                    }}
+                  >
+                    Resume Run
+                  </Button>
+                )}
                 <span className="text-xs text-red-500 dark:text-red-300">
                   Ensure the backend at {process.env.NEXT_PUBLIC_API_BASE_URL ?? 'http://localhost:5001'} is running.
                 </span>
@@ -263,6 +312,7 @@ export default function Home() {
                       setIsGenerating(false)
                       setWorkflowResult(null)
                       setErrorMessage(null)
+                      setFailedWorkflowId(null)
                     }}
                   >
                     Reset
@@ -301,7 +351,7 @@ export default function Home() {
                 <div className="flex gap-2">
                   {workflowResult.pdfUrl && (
                     <a
-                      href={workflowResult.pdfUrl}
+                      href={apiUrl(workflowResult.pdfUrl)}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="inline-flex items-center rounded-md bg-green-600 px-4 py-2 text-sm font-medium text-white hover:bg-green-700"
@@ -0,0 +1,253 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { AlertCircle, ArrowDown, ArrowUp, CheckCircle, Loader2, Plus, Trash2 } from 'lucide-react'
+import { apiUrl } from '@/lib/api'
+
+// Mirrors `outlineEditSchema` in src/mastra/planning/outlineGeneration.ts
+interface EditableChapter {
+  title: string
+  sections: string[]
+  learningObjectives?: string[]
+  prerequisites?: string[]
+}
+
+interface OutlineApprovalProps {
+  workflowId: string
+  onApproved?: () => void
+}
+
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  if (to < 0 || to >= items.length) return items
+  const next = [...items]
+  const [item] = next.splice(from, 1)
+  next.splice(to, 0, item)
+  return next
+}
+
+export function OutlineApproval({ workflowId, onApproved }: OutlineApprovalProps) {
+  const [chapters, setChapters] = useState<EditableChapter[] | null>(null)
+  const [approvedBy, setApprovedBy] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadOutline = async () => {
+      try {
+        const response = await fetch(apiUrl(`/api/runs/${workflowId}/outline`))
+        if (!response.ok) {
+          throw new Error(`Failed to load outline (${response.status})`)
+        }
+        const outline = await response.json()
+        setChapters(
+          outline.chapters.map((chapter: EditableChapter) => ({
+            title: chapter.title,
+            sections: chapter.sections,
+            learningObjectives: chapter.learningObjectives,
+            prerequisites: chapter.prerequisites,
+          }))
+        )
+      } catch (loadError) {
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load outline')
+      }
+    }
+
+    loadOutline()
+  }, [workflowId])
+
+  const updateChapter = (index: number, update: (chapter: EditableChapter) => EditableChapter) => {
+    setChapters(current => current && current.map((chapter, i) => (i === index ? update(chapter) : chapter)))
+  }
+
+  const hasEmptyTitles = chapters?.some(
+    chapter => !chapter.title.trim() || chapter.sections.length === 0 || chapter.sections.some(section => !section.trim())
+  )
+
+  const approveOutline = async () => {
+    if (!chapters) return
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch(apiUrl(`/api/runs/${workflowId}/outline/approve`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          chapters,
+          approvedBy: approvedBy.trim() || undefined,
+        }),
+      })
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        throw new Error(body?.error || `Failed to approve outline (${response.status})`)
+      }
+
+      onApproved?.()
+    } catch (approveError) {
+      setError(approveError instanceof Error ? approveError.message : 'Failed to approve outline')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Card className="w-full border-amber-300">
+      <CardHeader>
+        <CardTitle className="text-lg">Review the Outline</CardTitle>
+        <CardDescription>
+          Rename, reorder, add or remove chapters and sections, then approve to start writing.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="flex items-center gap-2 p-3 text-sm text-red-700 bg-red-50 rounded border border-red-200">
+            <AlertCircle className="h-4 w-4" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {!chapters && !error && (
+          <div className="flex items-center space-x-2 text-sm">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span>Loading outline...</span>
+          </div>
+        )}
+
+        {chapters?.map((chapter, chapterIndex) => (
+          <div key={chapterIndex} className="p-4 rounded-lg border bg-gray-50 dark:bg-gray-800/50 space-y-3">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-semibold w-20 shrink-0">Chapter {chapterIndex + 1}</span>
+              <Input
+                value={chapter.title}
+                onChange={(e) => updateChapter(chapterIndex, c => ({ ...c, title: e.target.value }))}
+                aria-label={`Chapter ${chapterIndex + 1} title`}
+              />
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={chapterIndex === 0}
+                onClick={() => setChapters(current => current && moveItem(current, chapterIndex, chapterIndex - 1))}
+                aria-label="Move chapter up"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={chapterIndex === chapters.length - 1}
+                onClick={() => setChapters(current => current && moveItem(current, chapterIndex, chapterIndex + 1))}
+                aria-label="Move chapter down"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={chapters.length === 1}
+                onClick={() => setChapters(current => current && current.filter((_, i) => i !== chapterIndex))}
+                aria-label="Remove chapter"
+              >
+                <Trash2 className="h-4 w-4 text-red-500" />
+              </Button>
+            </div>
+
+            <div className="ml-6 space-y-2">
+              {chapter.sections.map((section, sectionIndex) => (
+                <div key={sectionIndex} className="flex items-center gap-2">
+                  <span className="text-xs text-gray-500 w-10 shrink-0">
+                    {chapterIndex + 1}.{sectionIndex + 1}
+                  </span>
+                  <Input
+                    value={section}
+                    onChange={(e) => updateChapter(chapterIndex, c => ({
+                      ...c,
+                      sections: c.sections.map((s, i) => (i === sectionIndex ? e.target.value : s)),
+                    }))}
+                    className="h-8"
+                    aria-label={`Section ${chapterIndex + 1}.${sectionIndex + 1} title`}
+                  />
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={sectionIndex === 0}
+                    onClick={() => updateChapter(chapterIndex, c => ({
+                      ...c,
+                      sections: moveItem(c.sections, sectionIndex, sectionIndex - 1),
+                    }))}
+                    aria-label="Move section up"
+                  >
+                    <ArrowUp className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={sectionIndex === chapter.sections.length - 1}
+                    onClick={() => updateChapter(chapterIndex, c => ({
+                      ...c,
+                      sections: moveItem(c.sections, sectionIndex, sectionIndex + 1),
+                    }))}
+                    aria-label="Move section down"
+                  >
+                    <ArrowDown className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={chapter.sections.length === 1}
+                    onClick={() => updateChapter(chapterIndex, c => ({
+                      ...c,
+                      sections: c.sections.filter((_, i) => i !== sectionIndex),
+                    }))}
+                    aria-label="Remove section"
+                  >
+                    <Trash2 className="h-3 w-3 text-red-500" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => updateChapter(chapterIndex, c => ({ ...c, sections: [...c.sections, 'New section'] }))}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add section
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {chapters && (
+          <>
+            <Button
+              variant="outline"
+              onClick={() => setChapters(current => current && [...current, { title: 'New chapter', sections: ['Introduction'] }])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add chapter
+            </Button>
+
+            <div className="flex flex-col sm:flex-row gap-3 pt-2 border-t">
+              <Input
+                placeholder="Your name (recorded with the approval)"
+                value={approvedBy}
+                onChange={(e) => setApprovedBy(e.target.value)}
+              />
+              <Button onClick={approveOutline} disabled={isSubmitting || hasEmptyTitles} className="shrink-0">
+                {isSubmitting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                )}
+                Approve &amp; Start Writing
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,219 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { AlertCircle, CheckCircle, Edit, Loader2, XCircle } from 'lucide-react'
+import { apiUrl } from '@/lib/api'
+
+type EditorialDecision = 'approve' | 'reject' | 'request-revisions'
+
+// Subset of `bookReviewReportSchema` in src/mastra/review/contentReview.ts
+interface BookReview {
+  score: number
+  revisionRound: number
+  approvedForPublication: boolean
+  approvalRationale: string
+  chapters: Array<{
+    chapterNumber: number
+    title: string
+    score: number
+    issues: Array<{
+      sectionTitle: string
+      severity: 'critical' | 'major' | 'minor'
+      problem: string
+    }>
+    overviewCheck?: {
+      unmetObjectives: string[]
+    }
+  }>
+}
+
+interface PublicationApprovalProps {
+  workflowId: string
+  onDecided?: (decision: EditorialDecision) => void
+}
+
+const severityStyles = {
+  critical: 'bg-red-100 text-red-800',
+  major: 'bg-amber-100 text-amber-800',
+  minor: 'bg-gray-100 text-gray-700',
+}
+
+export function PublicationApproval({ workflowId, onDecided }: PublicationApprovalProps) {
+  const [review, setReview] = useState<BookReview | null>(null)
+  const [reviewer, setReviewer] = useState('')
+  const [comments, setComments] = useState('')
+  const [submitting, setSubmitting] = useState<EditorialDecision | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadReview = async () => {
+      try {
+        const response = await fetch(apiUrl(`/api/runs/${workflowId}/review`))
+        if (!response.ok) {
+          throw new Error(`Failed to load review (${response.status})`)
+        }
+        setReview(await response.json())
+      } catch (loadError) {
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load review')
+      }
+    }
+
+    loadReview()
+  }, [workflowId])
+
+  const submitDecision = async (decision: EditorialDecision) => {
+    setSubmitting(decision)
+    setError(null)
+
+    try {
+      const response = await fetch(apiUrl(`/api/runs/${workflowId}/publication/decision`), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          decision,
+          reviewer: reviewer.trim(),
+          comments: comments.trim() || undefined,
+        }),
+      })
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        throw new Error(body?.issues?.[0]?.message || body?.error || `Failed to submit decision (${response.status})`)
+      }
+
+      onDecided?.(decision)
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : 'Failed to submit decision')
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  const flaggedChapters = review?.chapters.filter(chapter =>
+    chapter.issues.length > 0 || (chapter.overviewCheck?.unmetObjectives.length ?? 0) > 0
+  ) ?? []
+  const canSubmit = reviewer.trim().length > 0 && submitting === null
+
+  return (
+    <Card className="w-full border-amber-300">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg">Publication Decision</CardTitle>
+            <CardDescription>
+              Approve the book for publishing, reject it, or send it back for revisions with your comments.
+            </CardDescription>
+          </div>
+          {review && (
+            <Badge className={review.approvedForPublication ? 'bg-green-500' : 'bg-amber-500'}>
+              {review.score}/10
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="flex items-center gap-2 p-3 text-sm text-red-700 bg-red-50 rounded border border-red-200">
+            <AlertCircle className="h-4 w-4" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {!review && !error && (
+          <div className="flex items-center space-x-2 text-sm">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span>Loading review...</span>
+          </div>
+        )}
+
+        {review && (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-700 dark:text-gray-300">{review.approvalRationale}</p>
+            <p className="text-xs text-gray-500">Revision rounds so far: {review.revisionRound}</p>
+
+            {flaggedChapters.length > 0 && (
+              <div className="max-h-64 overflow-y-auto space-y-3 p-3 bg-gray-50 dark:bg-gray-800/50 rounded-lg">
+                {flaggedChapters.map(chapter => (
+                  <div key={chapter.chapterNumber} className="space-y-1">
+                    <p className="text-sm font-medium">
+                      Chapter {chapter.chapterNumber}: {chapter.title} ({chapter.score}/10)
+                    </p>
+                    <ul className="space-y-1">
+                      {chapter.issues.map((issue, index) => (
+                        <li key={index} className="flex items-start gap-2 text-xs text-gray-600 dark:text-gray-400">
+                          <Badge variant="outline" className={severityStyles[issue.severity]}>
+                            {issue.severity}
+                          </Badge>
+                          <span>
+                            <span className="font-medium">{issue.sectionTitle}:</span> {issue.problem}
+                          </span>
+                        </li>
+                      ))}
+                      {chapter.overviewCheck?.unmetObjectives.map((objective, index) => (
+                        <li key={`objective-${index}`} className="flex items-start gap-2 text-xs text-gray-600 dark:text-gray-400">
+                          <Badge variant="outline" className={severityStyles.major}>
+                            objective
+                          </Badge>
+                          <span>Not met: {objective}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-3 pt-2 border-t">
+          <Input
+            placeholder="Your name (recorded with the decision)"
+            value={reviewer}
+            onChange={(e) => setReviewer(e.target.value)}
+          />
+          <textarea
+            placeholder="Comments for the run history, or what the writer should change"
+            value={comments}
+            onChange={(e) => setComments(e.target.value)}
+            rows={3}
+            className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          />
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={() => submitDecision('approve')} disabled={!canSubmit}>
+              {submitting === 'approve' ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <CheckCircle className="h-4 w-4 mr-2" />
+              )}
+              Approve &amp; Publish
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => submitDecision('request-revisions')}
+              disabled={!canSubmit || !comments.trim()}
+            >
+              {submitting === 'request-revisions' ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Edit className="h-4 w-4 mr-2" />
+              )}
+              Request Revisions
+            </Button>
+            <Button variant="destructive" onClick={() => submitDecision('reject')} disabled={!canSubmit}>
+              {submitting === 'reject' ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <XCircle className="h-4 w-4 mr-2" />
+              )}
+              Reject
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,12 +1,14 @@
 'use client'
 
-import { useState, useEffect, useRef, useMemo } from 'react'
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react'
 import { Progress } from '@/components/ui/progress'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Loader2, CheckCircle, AlertCircle, Clock, Download, FileText, Search, Edit, BookOpen, Zap } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { apiUrl } from '@/lib/api'
+import { OutlineApproval } from '@/components/OutlineApproval'
+import { PublicationApproval } from '@/components/PublicationApproval'
 
 export interface WorkflowStep {
   id: string
@@ -27,6 +29,12 @@ export interface WorkflowStep {
 export interface WorkflowResult {
   contentUrl?: string
   pdfUrl?: string
+  pdfPath?: string
+  exports?: Array<{
+    format: string
+    url: string
+    fileSize: number
+  }>
   wordCount?: number
   completedAt?: string
 }
@@ -40,6 +48,24 @@ export interface WorkflowProgress {
   startTime: string
   endTime?: string
   result?: WorkflowResult
+  awaitingApproval?: {
+    stepId: string
+    requestedAt: string
+  }
+}
+
+const exportLabels: Record<string, string> = {
+  epub: 'EPUB E-book',
+  docx: 'Word Manuscript',
+  site: 'Course Website',
+  scorm: 'SCORM Package',
+  solutions: 'Solutions Manual',
+}
+
+// Formats whose download extension isn't the format name
+const exportExtensions: Record<string, string> = {
+  scorm: 'zip',
+  solutions: 'pdf',
 }
 
 interface WorkflowProgressProps {
@@ -51,6 +77,7 @@ interface WorkflowProgressProps {
 export function WorkflowProgress({ workflowId, onComplete, onError }: WorkflowProgressProps) {
   const [progress, setProgress] = useState<WorkflowProgress | null>(null)
   const [isPolling, setIsPolling] = useState(true)
+  const [useEventStream, setUseEventStream] = useState(true)
   const intervalRef = useRef<NodeJS.Timeout | null>(null)
   const [elapsedSeconds, setElapsedSeconds] = useState(0)
 
@@ -76,9 +103,56 @@ export function WorkflowProgress({ workflowId, onComplete, onError }: WorkflowPr
     )
   }, [progress])
 
+  const handleProgress = useCallback((progressData: WorkflowProgress) => {
+    setProgress(progressData)
+
+    // Stop listening if workflow is complete or failed
+    if (progressData.status === 'completed' || progressData.status === 'failed') {
+      setIsPolling(false)
+
+      if (progressData.status === 'completed' && progressData.result) {
+        onComplete?.(progressData.result)
+      } else if (progressData.status === 'failed') {
+        const failedStep = progressData.steps.find(step => step.status === 'failed')
+        onError?.(failedStep?.error || 'Workflow failed')
+      }
+    }
+  }, [onComplete, onError])
+
+  // Subscribe to live progress events, falling back to polling without SSE
+  useEffect(() => {
+    if (!workflowId || !isPolling || !useEventStream) return
+
+    if (typeof EventSource === 'undefined') {
+      setUseEventStream(false)
+      return
+    }
+
+    const source = new EventSource(apiUrl(`/api/runs/${workflowId}/events`))
+    let receivedSnapshot = false
+
+    source.addEventListener('snapshot', (event) => {
+      receivedSnapshot = true
+      handleProgress(JSON.parse((event as MessageEvent<string>).data))
+    })
+
+    source.onerror = () => {
+      // EventSource reconnects by itself once the stream has worked; if it never
+      // delivered a snapshot (e.g. a proxy strips SSE) switch to polling instead.
+      if (!receivedSnapshot || source.readyState === EventSource.CLOSED) {
+        source.close()
+        setUseEventStream(false)
+      }
+    }
+
+    return () => {
+      source.close()
+    }
+  }, [workflowId, isPolling, useEventStream, handleProgress])
+
   // Poll for progress updates
   useEffect(() => {
-    if (!workflowId || !isPolling) return
+    if (!workflowId || !isPolling || useEventStream) return
 
     const pollProgress = async () => {
       try {
@@ -88,19 +162,7 @@ export function WorkflowProgress({ workflowId, onComplete, onError }: WorkflowPr
         
         if (response.ok) {
           const progressData: WorkflowProgress = await response.json()
-          setProgress(progressData)
-          
-          // Stop polling if workflow is complete or failed
-          if (progressData.status === 'completed' || progressData.status === 'failed') {
-            setIsPolling(false)
-            
-            if (progressData.status === 'completed' && progressData.result) {
-              onComplete?.(progressData.result)
-            } else if (progressData.status === 'failed') {
-              const failedStep = progressData.steps.find(step => step.status === 'failed')
-              onError?.(failedStep?.error || 'Workflow failed')
-            }
-          }
+          handleProgress(progressData)
         } else if (response.status === 404) {
           // Workflow not found yet, keep polling
           console.log('Workflow not found yet, continuing to poll...')
@@ -123,7 +185,7 @@ export function WorkflowProgress({ workflowId, onComplete, onError }: WorkflowPr
         clearInterval(intervalRef.current)
       }
     }
-  }, [workflowId, isPolling, onComplete, onError])
+  }, [workflowId, isPolling, useEventStream, handleProgress])
 
   // Cleanup on unmount
   useEffect(() => {
@@ -210,7 +272,7 @@ export function WorkflowProgress({ workflowId, onComplete, onError }: WorkflowPr
 
   const handleDownload = async (url: string, filename: string) => {
     try {
-      const response = await fetch(url)
+      const response = await fetch(apiUrl(url))
       const blob = await response.blob()
       const downloadUrl = window.URL.createObjectURL(blob)
       const link = document.createElement('a')
@@ -267,8 +329,18 @@ export function WorkflowProgress({ workflowId, onComplete, onError }: WorkflowPr
           </div>
         </div>
 
+        {/* Outline Approval */}
+        {progress.awaitingApproval?.stepId === 'approve-outline' && (
+          <OutlineApproval workflowId={workflowId} />
+        )}
+
+        {/* Publication Decision */}
+        {progress.awaitingApproval?.stepId === 'approve-publication' && (
+          <PublicationApproval workflowId={workflowId} />
+        )}
+
         {/* Current Step */}
-        {progress.currentStep && progress.status === 'running' && (
+        {progress.currentStep && progress.status === 'running' && !progress.awaitingApproval && (
           <div className="p-4 bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 rounded-lg border border-blue-200 dark:border-blue-800">
             <div className="flex items-center justify-between mb-2">
               <div className="flex items-center space-x-3">
@@ -477,6 +549,28 @@ export function WorkflowProgress({ workflowId, onComplete, onError }: WorkflowPr
                     </div>
                   </Button>
                 )}
+
+                {progress.result.exports?.map(bookExport => (
+                  <Button
+                    key={bookExport.format}
+                    size="sm"
+                    variant="outline"
+                    onClick={() =>
+                      bookExport.format === 'site'
+                        ? window.open(apiUrl(bookExport.url), '_blank', 'noopener')
+                        : handleDownload(bookExport.url, `educational-content.${exportExtensions[bookExport.format] ?? bookExport.format}`)
+                    }
+                    className="flex items-center justify-center space-x-2 p-3 h-auto border-green-300 hover:bg-green-50"
+                  >
+                    <Download className="h-4 w-4" />
+                    <div className="text-left">
+                      <div className="font-medium">{exportLabels[bookExport.format] ?? bookExport.format.toUpperCase()}</div>
+                      <div className="text-xs text-gray-600">
+                        {bookExport.format === 'site' ? 'Opens in a new tab' : `Exported book (.${exportExtensions[bookExport.format] ?? bookExport.format})`}
+                      </div>
+                    </div>
+                  </Button>
+                ))}
               </div>
             </div>
           </div>
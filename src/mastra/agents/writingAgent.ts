@@ -33,7 +33,7 @@ Your writing should include:
 - Clear chapter introductions with learning objectives
 - Step-by-step explanations with examples
 - "Key Points" summaries for important concepts
-- "Try This" practical exercises or examples
+- "Try This" quick examples readers can follow along with (graded practice exercises with worked solutions are written separately for each chapter)
 - "Common Mistakes" sections to help learners avoid pitfalls
 - Chapter summaries that reinforce key learning points
 - Smooth transitions between concepts and chapters
@@ -0,0 +1,172 @@
+import type { IMastraLogger } from "@mastra/core/logger";
+import { z } from "zod";
+import { writingAgent } from "../agents/writingAgent";
+import { AI_MAX_CONCURRENT_REQUESTS, mapWithConcurrency } from "../scheduling/aiRequestScheduler";
+import type { ReviewedChapter } from "../review/contentReview";
+import { requestStructuredOutput } from "../scheduling/structuredRequest";
+
+export const EXERCISE_DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+
+export type ExerciseDifficulty = (typeof EXERCISE_DIFFICULTIES)[number];
+
+export const exerciseSchema = z.object({
+  title: z.string().trim().min(1).max(80).describe("Short name for the exercise"),
+  difficulty: z.enum(EXERCISE_DIFFICULTIES)
+    .describe("easy: applies one idea directly; medium: combines ideas from the chapter; hard: open-ended or needs careful reasoning"),
+  sectionTitle: z.string().min(1).describe("Exact title of the section the exercise practises"),
+  task: z.string().min(1).describe("What the learner has to do, in Markdown, including any starting code or data"),
+  hints: z.array(z.string().min(1)).min(1).max(3).describe("Hints in order, from a gentle nudge to nearly giving it away"),
+  solution: z.string().min(1).describe("Worked solution in Markdown that walks through each step, explains why, and ends with the final answer"),
+});
+
+export type Exercise = z.infer<typeof exerciseSchema>;
+
+// What the writing agent returns for one chapter
+export const chapterExercisesOutputSchema = z.object({
+  exercises: z.array(exerciseSchema).min(3).max(6),
+}).superRefine((output, ctx) => {
+  if (new Set(output.exercises.map(exercise => exercise.difficulty)).size < 2) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['exercises'],
+      message: 'Exercises must cover at least two difficulty levels',
+    });
+  }
+});
+
+export const chapterExerciseSetSchema = z.object({
+  chapterNumber: z.number(),
+  title: z.string(),
+  // Easiest first
+  exercises: z.array(exerciseSchema),
+  generatedAt: z.string(),
+});
+
+export type ChapterExerciseSet = z.infer<typeof chapterExerciseSetSchema>;
+
+const DIFFICULTY_LABELS: Record<ExerciseDifficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+};
+
+const normalizeTitle = (title: string): string =>
+  title.trim().toLowerCase().replace(/^section\s+[\d.]+[:.]?\s*/, '');
+
+const generateChapterExercises = async ({
+  workflowId,
+  topic,
+  chapter,
+  logger,
+}: {
+  workflowId: string;
+  topic: string;
+  chapter: ReviewedChapter;
+  logger?: IMastraLogger;
+}): Promise<ChapterExerciseSet> => {
+  const sectionTitles = chapter.sections.map(section => section.title);
+  const findTitle = (title: string) => sectionTitles.find(known => normalizeTitle(known) === normalizeTitle(title));
+
+  const output = await requestStructuredOutput({
+    agent: writingAgent,
+    prompt: `Write the practice exercises for Chapter ${chapter.number} of the educational guide on "${topic}".
+
+CHAPTER ${chapter.number}: ${chapter.title}
+Sections: ${sectionTitles.join('; ')}
+Learning objectives:
+${chapter.overview.learningObjectives.map(objective => `- ${objective}`).join('\n')}
+
+CHAPTER CONTENT:
+${chapter.content}
+
+Write 3-5 hands-on exercises that practise the learning objectives, from easy to hard, covering at least two difficulty levels.
+- Every exercise must be solvable with what this chapter and earlier chapters teach
+- Name the exact section each exercise practises, and spread the exercises across the sections
+- Tasks say exactly what to do and what counts as done, and include any starting code or data
+- Give one to three hints, each revealing a little more than the last
+- Worked solutions go step by step, explain the reasoning, point out common mistakes and end with the final answer`,
+    schema: chapterExercisesOutputSchema,
+    resourceId: "exercise-generation",
+    threadId: `exercises-${workflowId}-chapter-${chapter.number}`,
+    validate: output => output.exercises
+      .filter(exercise => !findTitle(exercise.sectionTitle))
+      .map(exercise => `"${exercise.title}" names section "${exercise.sectionTitle}", which is not in this chapter (sections: ${sectionTitles.join('; ')})`),
+    logger,
+  });
+
+  return {
+    chapterNumber: chapter.number,
+    title: chapter.title,
+    exercises: output.exercises
+      .map(exercise => ({ ...exercise, sectionTitle: findTitle(exercise.sectionTitle)! }))
+      .sort((a, b) => EXERCISE_DIFFICULTIES.indexOf(a.difficulty) - EXERCISE_DIFFICULTIES.indexOf(b.difficulty)),
+    generatedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Generates practice exercises for every chapter in parallel. Sets already
+ * saved for a chapter with the same title are reused. A chapter whose
+ * exercises can't be generated is logged and left without any rather than
+ * failing the book.
+ */
+export const generateBookExercises = async ({
+  workflowId,
+  topic,
+  chapters,
+  savedExercises = [],
+  logger,
+}: {
+  workflowId: string;
+  topic: string;
+  chapters: ReviewedChapter[];
+  savedExercises?: ChapterExerciseSet[];
+  logger?: IMastraLogger;
+}): Promise<ChapterExerciseSet[]> => {
+  const sets = await mapWithConcurrency(chapters, AI_MAX_CONCURRENT_REQUESTS, async chapter => {
+    const saved = savedExercises.find(set => set.chapterNumber === chapter.number && set.title === chapter.title);
+    if (saved) {
+      return saved;
+    }
+
+    logger?.info("🏋️ [ChapterExercises] Generating chapter exercises", { chapterNumber: chapter.number });
+    try {
+      return await generateChapterExercises({ workflowId, topic, chapter, logger });
+    } catch (error) {
+      logger?.warn("⚠️ [ChapterExercises] Chapter left without exercises", {
+        chapterNumber: chapter.number,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  });
+
+  return sets.filter((set): set is ChapterExerciseSet => set !== null);
+};
+
+const exerciseHeading = (set: ChapterExerciseSet, index: number): string => {
+  const exercise = set.exercises[index];
+  return `**Exercise ${set.chapterNumber}.${index + 1}: ${exercise.title}** *(${DIFFICULTY_LABELS[exercise.difficulty]})*`;
+};
+
+/**
+ * Markdown for the exercises at the end of a chapter: tasks and hints, with a
+ * pointer to where the worked solutions are published.
+ */
+export const renderExercisesMarkdown = (set: ChapterExerciseSet, solutionsLocation: string): string => [
+  ...set.exercises.map((exercise, index) => [
+    exerciseHeading(set, index),
+    exercise.task,
+    ...exercise.hints.map((hint, hintIndex) => `*Hint${exercise.hints.length > 1 ? ` ${hintIndex + 1}` : ''}:* ${hint}`),
+  ].join('\n\n')),
+  `*Worked solutions are in ${solutionsLocation}.*`,
+].join('\n\n');
+
+// Markdown for one chapter's worked solutions; the solutions manual repeats each task above its solution
+export const renderSolutionsMarkdown = (set: ChapterExerciseSet, { includeTasks = false }: { includeTasks?: boolean } = {}): string =>
+  set.exercises.map((exercise, index) => [
+    exerciseHeading(set, index),
+    ...(includeTasks ? ['**Task**', exercise.task, '**Solution**'] : []),
+    exercise.solution,
+    `*(Practises "${exercise.sectionTitle}".)*`,
+  ].join('\n\n')).join('\n\n');
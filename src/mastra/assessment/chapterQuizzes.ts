@@ -0,0 +1,197 @@
+import type { IMastraLogger } from "@mastra/core/logger";
+import { z } from "zod";
+import { writingAgent } from "../agents/writingAgent";
+import { AI_MAX_CONCURRENT_REQUESTS, mapWithConcurrency } from "../scheduling/aiRequestScheduler";
+import { requestStructuredOutput } from "../scheduling/structuredRequest";
+import type { ReviewedChapter } from "../review/contentReview";
+
+export const QUIZ_QUESTION_TYPES = ['multiple-choice', 'true-false', 'short-answer'] as const;
+
+export type QuizQuestionType = (typeof QUIZ_QUESTION_TYPES)[number];
+
+const questionFields = {
+  sectionTitle: z.string().min(1).describe("Exact title of the section the question is based on"),
+  prompt: z.string().min(1).describe("The question as the learner sees it"),
+  explanation: z.string().min(1).describe("Why the answer is correct, referring back to the chapter"),
+};
+
+export const quizQuestionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('multiple-choice'),
+    ...questionFields,
+    options: z.array(z.string().min(1)).min(3).max(6).describe("Answer options, exactly one of them correct"),
+    correctOption: z.number().int().min(0).describe("Zero-based index of the correct option"),
+  }),
+  z.object({
+    type: z.literal('true-false'),
+    ...questionFields,
+    answer: z.boolean().describe("Whether the statement in the prompt is true"),
+  }),
+  z.object({
+    type: z.literal('short-answer'),
+    ...questionFields,
+    answer: z.string().min(1).describe("Model answer in one or two sentences"),
+    acceptableAnswers: z.array(z.string().min(1)).default([]).describe("Other short answers that should be marked correct"),
+  }),
+]);
+
+export type QuizQuestion = z.infer<typeof quizQuestionSchema>;
+
+// What the writing agent returns for one chapter
+export const chapterQuizOutputSchema = z.object({
+  questions: z.array(quizQuestionSchema).min(4).max(12),
+}).superRefine((quiz, ctx) => {
+  quiz.questions.forEach((question, index) => {
+    if (question.type === 'multiple-choice' && question.correctOption >= question.options.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['questions', index, 'correctOption'],
+        message: `correctOption ${question.correctOption} is out of range for ${question.options.length} options`,
+      });
+    }
+  });
+  for (const type of QUIZ_QUESTION_TYPES) {
+    if (!quiz.questions.some(question => question.type === type)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['questions'],
+        message: `At least one ${type} question is required`,
+      });
+    }
+  }
+});
+
+export const chapterQuizSchema = z.object({
+  chapterNumber: z.number(),
+  title: z.string(),
+  questions: z.array(quizQuestionSchema),
+  generatedAt: z.string(),
+});
+
+export type ChapterQuiz = z.infer<typeof chapterQuizSchema>;
+
+const QUESTION_TYPE_LABELS: Record<QuizQuestionType, string> = {
+  'multiple-choice': 'Multiple choice',
+  'true-false': 'True or false',
+  'short-answer': 'Short answer',
+};
+
+const optionLetter = (index: number): string => String.fromCharCode(65 + index);
+
+const normalizeTitle = (title: string): string =>
+  title.trim().toLowerCase().replace(/^section\s+[\d.]+[:.]?\s*/, '');
+
+const generateChapterQuiz = async ({
+  workflowId,
+  topic,
+  chapter,
+  logger,
+}: {
+  workflowId: string;
+  topic: string;
+  chapter: ReviewedChapter;
+  logger?: IMastraLogger;
+}): Promise<ChapterQuiz> => {
+  const sectionTitles = chapter.sections.map(section => section.title);
+  const findTitle = (title: string) => sectionTitles.find(known => normalizeTitle(known) === normalizeTitle(title));
+
+  const output = await requestStructuredOutput({
+    agent: writingAgent,
+    prompt: `Write an end-of-chapter quiz for Chapter ${chapter.number} of the educational guide on "${topic}".
+
+CHAPTER ${chapter.number}: ${chapter.title}
+Sections: ${sectionTitles.join('; ')}
+
+CHAPTER CONTENT:
+${chapter.content}
+
+Write 6-10 questions that mix multiple-choice, true/false and short-answer, with at least one of each.
+- Every question must be answerable from the chapter content above; do not test anything the chapter doesn't teach
+- Name the exact section each question is based on, and spread the questions across the sections
+- Multiple-choice questions have 3-5 plausible options with exactly one correct
+- True/false prompts are statements, not questions
+- Short-answer questions have a model answer of one or two sentences
+- Every question has an explanation of the correct answer that points back to the chapter`,
+    schema: chapterQuizOutputSchema,
+    resourceId: "quiz-generation",
+    threadId: `quiz-${workflowId}-chapter-${chapter.number}`,
+    // Questions must be grounded in a section of this chapter
+    validate: output => output.questions
+      .filter(question => !findTitle(question.sectionTitle))
+      .map(question => `"${question.prompt}" names section "${question.sectionTitle}", which is not in this chapter (sections: ${sectionTitles.join('; ')})`),
+    logger,
+  });
+
+  return {
+    chapterNumber: chapter.number,
+    title: chapter.title,
+    questions: output.questions.map(question => ({ ...question, sectionTitle: findTitle(question.sectionTitle)! })),
+    generatedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Generates a quiz for every chapter in parallel. Quizzes already saved for a
+ * chapter with the same title are reused. A chapter whose quiz can't be
+ * generated is logged and left without one rather than failing the book.
+ */
+export const generateBookQuizzes = async ({
+  workflowId,
+  topic,
+  chapters,
+  savedQuizzes = [],
+  logger,
+}: {
+  workflowId: string;
+  topic: string;
+  chapters: ReviewedChapter[];
+  savedQuizzes?: ChapterQuiz[];
+  logger?: IMastraLogger;
+}): Promise<ChapterQuiz[]> => {
+  const quizzes = await mapWithConcurrency(chapters, AI_MAX_CONCURRENT_REQUESTS, async chapter => {
+    const saved = savedQuizzes.find(quiz => quiz.chapterNumber === chapter.number && quiz.title === chapter.title);
+    if (saved) {
+      return saved;
+    }
+
+    logger?.info("📝 [ChapterQuiz] Generating chapter quiz", { chapterNumber: chapter.number });
+    try {
+      return await generateChapterQuiz({ workflowId, topic, chapter, logger });
+    } catch (error) {
+      logger?.warn("⚠️ [ChapterQuiz] Chapter left without a quiz", {
+        chapterNumber: chapter.number,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  });
+
+  return quizzes.filter((quiz): quiz is ChapterQuiz => quiz !== null);
+};
+
+// Markdown for the quiz at the end of a chapter: the questions without their answers
+export const renderQuizMarkdown = (quiz: ChapterQuiz): string =>
+  quiz.questions.map((question, index) => {
+    const heading = `${index + 1}. *${QUESTION_TYPE_LABELS[question.type]}.* ${question.prompt}`;
+    if (question.type === 'multiple-choice') {
+      return [heading, '', ...question.options.map((option, optionIndex) => `   - ${optionLetter(optionIndex)}. ${option}`)].join('\n');
+    }
+    return heading;
+  }).join('\n\n');
+
+const renderAnswer = (question: QuizQuestion): string => {
+  switch (question.type) {
+    case 'multiple-choice':
+      return `${optionLetter(question.correctOption)}. ${question.options[question.correctOption]}`;
+    case 'true-false':
+      return question.answer ? 'True' : 'False';
+    case 'short-answer':
+      return question.answer;
+  }
+};
+
+// Markdown for one chapter's part of the answer key at the back of the book
+export const renderAnswerKeyMarkdown = (quiz: ChapterQuiz): string =>
+  quiz.questions.map((question, index) =>
+    `${index + 1}. **${renderAnswer(question)}**\n\n   ${question.explanation} *(See "${question.sectionTitle}".)*`
+  ).join('\n\n');
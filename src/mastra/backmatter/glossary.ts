@@ -0,0 +1,271 @@
+import type { IMastraLogger } from "@mastra/core/logger";
+import { z } from "zod";
+import { writingAgent } from "../agents/writingAgent";
+import { AI_MAX_CONCURRENT_REQUESTS, mapWithConcurrency } from "../scheduling/aiRequestScheduler";
+import type { ReviewedChapter } from "../review/contentReview";
+import { escapeMarkdown } from "../export/markdown";
+import { groupByInitial } from "../export/bookIndex";
+import {
+  joinPieces,
+  mapProseLines,
+  replaceFirstMatch,
+  splitLine,
+  termPattern,
+} from "./proseText";
+import { requestStructuredOutput } from "../scheduling/structuredRequest";
+
+// Terms whose definitions are merged in one request
+const MERGE_BATCH_SIZE = 40;
+
+// What the writing agent returns for one chapter
+export const chapterTermsOutputSchema = z.object({
+  terms: z.array(z.object({
+    term: z.string().trim().min(1).max(80).describe("The term as the chapter writes it, singular, without articles"),
+    definition: z.string().trim().min(1).describe("One or two sentence definition, self-contained and based on the chapter"),
+    sectionTitle: z.string().min(1).describe("Exact title of the section that defines the term"),
+  })).max(25),
+});
+
+const mergedDefinitionsOutputSchema = z.object({
+  terms: z.array(z.object({
+    term: z.string().min(1),
+    definition: z.string().trim().min(1),
+  })),
+});
+
+export const glossaryEntrySchema = z.object({
+  term: z.string(),
+  // Anchor id of the entry in the glossary appendix
+  id: z.string(),
+  definition: z.string(),
+  // Where the term is defined, in reading order
+  definedIn: z.array(z.object({
+    chapterNumber: z.number(),
+    sectionTitle: z.string(),
+  })),
+});
+
+export type GlossaryEntry = z.infer<typeof glossaryEntrySchema>;
+
+interface ExtractedTerm {
+  term: string;
+  definition: string;
+  chapterNumber: number;
+  sectionTitle: string;
+}
+
+interface BookSection {
+  title: string;
+  content: string;
+}
+
+const normalizeTitle = (title: string): string =>
+  title.trim().toLowerCase().replace(/^section\s+[\d.]+[:.]?\s*/, '');
+
+// Terms that differ only in case, spacing or a plural "s" are the same entry
+const termKey = (term: string): string =>
+  term.trim().toLowerCase().replace(/\s+/g, ' ').replace(/^(?:the|a|an) /, '');
+
+const singularKey = (key: string, keys: Set<string>): string =>
+  key.endsWith('s') && keys.has(key.slice(0, -1)) ? key.slice(0, -1) : key;
+
+const termId = (term: string, usedIds: Set<string>): string => {
+  const base = `glossary-${termKey(term).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'term'}`;
+  let id = base;
+  for (let suffix = 2; usedIds.has(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  usedIds.add(id);
+  return id;
+};
+
+const extractChapterTerms = async ({
+  workflowId,
+  topic,
+  chapter,
+  logger,
+}: {
+  workflowId: string;
+  topic: string;
+  chapter: ReviewedChapter;
+  logger?: IMastraLogger;
+}): Promise<ExtractedTerm[]> => {
+  const sectionTitles = chapter.sections.map(section => section.title);
+  const output = await requestStructuredOutput({
+    agent: writingAgent,
+    prompt: `List the key terms that Chapter ${chapter.number} of the educational guide on "${topic}" defines or explains.
+
+CHAPTER ${chapter.number}: ${chapter.title}
+Sections: ${sectionTitles.join('; ')}
+
+CHAPTER CONTENT:
+${chapter.content}
+
+- Include the technical terms and concepts a reader would look up in a glossary; leave out everyday words
+- Only list terms the chapter actually explains, and base each definition on the chapter's explanation
+- Name the exact section each term is defined in
+- Write each term as it appears in the text, in the singular`,
+    schema: chapterTermsOutputSchema,
+    resourceId: "glossary",
+    threadId: `glossary-${workflowId}-chapter-${chapter.number}`,
+    validate: output => output.terms
+      .filter(term => !sectionTitles.some(title => normalizeTitle(title) === normalizeTitle(term.sectionTitle)))
+      .map(term => `"${term.term}" names section "${term.sectionTitle}", which is not in this chapter (sections: ${sectionTitles.join('; ')})`),
+    logger,
+  });
+
+  return output.terms.map(term => ({
+    term: term.term,
+    definition: term.definition,
+    chapterNumber: chapter.number,
+    sectionTitle: sectionTitles.find(title => normalizeTitle(title) === normalizeTitle(term.sectionTitle))!,
+  }));
+};
+
+// One definition per term for terms defined more than once, written from all of their definitions
+const mergeDefinitions = async ({
+  workflowId,
+  topic,
+  groups,
+  logger,
+}: {
+  workflowId: string;
+  topic: string;
+  groups: { term: string; definitions: string[] }[];
+  logger?: IMastraLogger;
+}): Promise<Map<string, string>> => {
+  const merged = new Map<string, string>();
+
+  for (let start = 0; start < groups.length; start += MERGE_BATCH_SIZE) {
+    const batch = groups.slice(start, start + MERGE_BATCH_SIZE);
+    const output = await requestStructuredOutput({
+      agent: writingAgent,
+      prompt: `These terms from the educational guide on "${topic}" are defined in more than one place. For each term, write a single glossary definition of one or two sentences that combines what the definitions say, without contradicting any of them.
+
+${batch.map(group => `TERM: ${group.term}\n${group.definitions.map(definition => `- ${definition}`).join('\n')}`).join('\n\n')}
+
+Return every term exactly as written above with its merged definition.`,
+      schema: mergedDefinitionsOutputSchema,
+      resourceId: "glossary",
+      threadId: `glossary-${workflowId}-merge-${start / MERGE_BATCH_SIZE + 1}`,
+      validate: output => batch
+        .filter(group => !output.terms.some(term => termKey(term.term) === termKey(group.term)))
+        .map(group => `No merged definition for "${group.term}"`),
+      logger,
+    });
+
+    for (const term of output.terms) {
+      merged.set(termKey(term.term), term.definition);
+    }
+  }
+
+  return merged;
+};
+
+/**
+ * Builds the book's glossary: extracts the terms each chapter defines,
+ * deduplicates them across chapters and merges repeated definitions into one.
+ * A chapter whose terms can't be extracted is skipped, and terms whose merge
+ * fails keep their first definition, rather than failing the book.
+ */
+export const buildGlossary = async ({
+  workflowId,
+  topic,
+  chapters,
+  logger,
+}: {
+  workflowId: string;
+  topic: string;
+  chapters: ReviewedChapter[];
+  logger?: IMastraLogger;
+}): Promise<GlossaryEntry[]> => {
+  const extracted = (await mapWithConcurrency(chapters, AI_MAX_CONCURRENT_REQUESTS, async chapter => {
+    logger?.info("📖 [Glossary] Extracting chapter terms", { chapterNumber: chapter.number });
+    try {
+      return await extractChapterTerms({ workflowId, topic, chapter, logger });
+    } catch (error) {
+      logger?.warn("⚠️ [Glossary] Skipping chapter terms", {
+        chapterNumber: chapter.number,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  })).flat();
+
+  // Group in reading order; the first spelling of a term becomes the entry's title
+  const keys = new Set(extracted.map(term => termKey(term.term)));
+  const groups = new Map<string, ExtractedTerm[]>();
+  for (const term of extracted) {
+    const key = singularKey(termKey(term.term), keys);
+    groups.set(key, [...(groups.get(key) ?? []), term]);
+  }
+
+  const repeated = [...groups.values()]
+    .map(terms => ({ term: terms[0].term, definitions: [...new Set(terms.map(term => term.definition))] }))
+    .filter(group => group.definitions.length > 1);
+
+  let mergedDefinitions = new Map<string, string>();
+  if (repeated.length > 0) {
+    try {
+      mergedDefinitions = await mergeDefinitions({ workflowId, topic, groups: repeated, logger });
+    } catch (error) {
+      logger?.warn("⚠️ [Glossary] Keeping first definitions of repeated terms", {
+        termCount: repeated.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const usedIds = new Set<string>();
+  return [...groups.values()]
+    .map(terms => ({
+      term: terms[0].term,
+      definition: mergedDefinitions.get(termKey(terms[0].term)) ?? terms[0].definition,
+      definedIn: terms
+        .map(term => ({ chapterNumber: term.chapterNumber, sectionTitle: term.sectionTitle }))
+        .filter((source, index, sources) => sources.findIndex(other =>
+          other.chapterNumber === source.chapterNumber && other.sectionTitle === source.sectionTitle) === index),
+    }))
+    .sort((a, b) => a.term.localeCompare(b.term, 'en', { sensitivity: 'base' }))
+    .map(entry => ({ ...entry, id: termId(entry.term, usedIds) }));
+};
+
+/**
+ * Links the first use of every glossary term in the book to its glossary entry.
+ * Sections are walked in reading order; headings, code and existing links are
+ * left alone, and longer terms win over terms they contain ("event loop" before
+ * "event"). Returns the sections with their content rewritten.
+ */
+export const linkFirstUses = <S extends BookSection>(sections: S[], glossary: GlossaryEntry[]): S[] => {
+  const pending = [...glossary]
+    .sort((a, b) => b.term.length - a.term.length)
+    .map(entry => ({ id: entry.id, pattern: termPattern(entry.term) }));
+
+  const linkLine = (line: string): string => {
+    let pieces = splitLine(line);
+
+    for (let termIndex = 0; termIndex < pending.length; termIndex++) {
+      const { id, pattern } = pending[termIndex];
+      const linked = replaceFirstMatch(pieces, pattern, matched => `[${matched}](#${id})`);
+      if (linked) {
+        pieces = linked;
+        pending.splice(termIndex, 1);
+        termIndex--;
+      }
+    }
+
+    return joinPieces(pieces);
+  };
+
+  return sections.map(section => ({
+    ...section,
+    content: mapProseLines(section.content, line => pending.length > 0 ? linkLine(line) : line),
+  }));
+};
+
+// The glossary appendix as sections, one per initial letter
+export const renderGlossarySections = (glossary: GlossaryEntry[]): BookSection[] =>
+  groupByInitial(glossary, entry => entry.term).map(([letter, entries]) => ({
+    title: letter,
+    content: entries.map(entry => `[**${escapeMarkdown(entry.term)}**]{#${entry.id}} — ${entry.definition}`).join('\n\n'),
+  }));
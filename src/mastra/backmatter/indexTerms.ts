@@ -0,0 +1,248 @@
+import type { IMastraLogger } from "@mastra/core/logger";
+import { z } from "zod";
+import { writingAgent } from "../agents/writingAgent";
+import { AI_MAX_CONCURRENT_REQUESTS, mapWithConcurrency } from "../scheduling/aiRequestScheduler";
+import type { ReviewedChapter } from "../review/contentReview";
+import type { BookIndexEntry, BookIndexLocator } from "../export/bookIndex";
+import {
+  findLabelledMatch,
+  joinPieces,
+  mapProseLines,
+  replaceFirstMatch,
+  splitLine,
+  termPattern,
+  type TextPiece,
+} from "./proseText";
+import { requestStructuredOutput } from "../scheduling/structuredRequest";
+
+// What the writing agent returns for one chapter
+export const chapterIndexOutputSchema = z.object({
+  entries: z.array(z.object({
+    term: z.string().trim().min(1).max(80).describe("Main index heading, e.g. \"closures\""),
+    subterm: z.string().trim().min(1).max(80).optional()
+      .describe("Second-level heading under the term, e.g. \"in loops\"; omit for the main entry"),
+    phrase: z.string().trim().min(1).max(80)
+      .describe("The words exactly as the text uses them where this entry is discussed"),
+    sectionTitles: z.array(z.string().min(1)).min(1)
+      .describe("Exact titles of the sections that discuss this entry"),
+  })).max(40),
+});
+
+export const indexTermSchema = z.object({
+  term: z.string(),
+  subterm: z.string().optional(),
+  // Where the term is discussed, in reading order
+  occurrences: z.array(z.object({
+    chapterNumber: z.number(),
+    sectionTitle: z.string(),
+    // Words to anchor in that section
+    phrase: z.string(),
+  })),
+});
+
+export type IndexTerm = z.infer<typeof indexTermSchema>;
+
+interface BookSection {
+  chapterNumber: number;
+  title: string;
+  content: string;
+}
+
+const normalizeTitle = (title: string): string =>
+  title.trim().toLowerCase().replace(/^section\s+[\d.]+[:.]?\s*/, '');
+
+// Headings that differ only in case, spacing or a leading article are the same entry
+const termKey = (term: string): string =>
+  term.trim().toLowerCase().replace(/\s+/g, ' ').replace(/^(?:the|a|an) /, '');
+
+const compareTerms = (a: string, b: string): number => a.localeCompare(b, 'en', { sensitivity: 'base' });
+
+const extractChapterIndexTerms = async ({
+  workflowId,
+  topic,
+  chapter,
+  logger,
+}: {
+  workflowId: string;
+  topic: string;
+  chapter: ReviewedChapter;
+  logger?: IMastraLogger;
+}): Promise<IndexTerm[]> => {
+  const sectionTitles = chapter.sections.map(section => section.title);
+  const findSection = (title: string) =>
+    chapter.sections.find(section => normalizeTitle(section.title) === normalizeTitle(title));
+
+  const output = await requestStructuredOutput({
+    agent: writingAgent,
+    prompt: `Choose the back-of-book index entries for Chapter ${chapter.number} of the educational guide on "${topic}".
+
+CHAPTER ${chapter.number}: ${chapter.title}
+Sections: ${sectionTitles.join('; ')}
+
+CHAPTER CONTENT:
+${chapter.content}
+
+- Index the concepts, techniques, tools and names a reader would look up later; leave out passing mentions and everyday words
+- Use a subterm for a specific aspect of a broader term (term "caching", subterm "invalidation"), and keep terms general enough to collect entries from other chapters
+- Give the phrase exactly as it appears in the prose of every section you list, so each use can be found
+- List only the sections where the entry is actually discussed`,
+    schema: chapterIndexOutputSchema,
+    resourceId: "book-index",
+    threadId: `book-index-${workflowId}-chapter-${chapter.number}`,
+    validate: output => output.entries.flatMap(entry => {
+      const label = entry.subterm ? `"${entry.term}, ${entry.subterm}"` : `"${entry.term}"`;
+      const unknown = entry.sectionTitles.filter(title => !findSection(title));
+      if (unknown.length > 0) {
+        return [`${label} names ${unknown.map(title => `"${title}"`).join(', ')}, not in this chapter (sections: ${sectionTitles.join('; ')})`];
+      }
+      const pattern = termPattern(entry.phrase);
+      return entry.sectionTitles.some(title => pattern.test(findSection(title)!.content))
+        ? []
+        : [`${label}: the phrase "${entry.phrase}" doesn't appear in any of its sections`];
+    }),
+    logger,
+  });
+
+  return output.entries.map(entry => {
+    const pattern = termPattern(entry.phrase);
+    return {
+      term: entry.term,
+      subterm: entry.subterm,
+      // Sections that don't use the phrase have nothing to anchor
+      occurrences: entry.sectionTitles
+        .map(title => findSection(title)!)
+        .filter(section => pattern.test(section.content))
+        .map(section => ({ chapterNumber: chapter.number, sectionTitle: section.title, phrase: entry.phrase })),
+    };
+  });
+};
+
+/**
+ * Picks the book's index terms: each chapter names what it discusses and
+ * where, and entries with the same heading are merged across chapters. A
+ * chapter whose terms can't be extracted is skipped rather than failing the
+ * book.
+ */
+export const buildIndexTerms = async ({
+  workflowId,
+  topic,
+  chapters,
+  logger,
+}: {
+  workflowId: string;
+  topic: string;
+  chapters: ReviewedChapter[];
+  logger?: IMastraLogger;
+}): Promise<IndexTerm[]> => {
+  const extracted = (await mapWithConcurrency(chapters, AI_MAX_CONCURRENT_REQUESTS, async chapter => {
+    logger?.info("🗂️ [BookIndex] Extracting chapter index terms", { chapterNumber: chapter.number });
+    try {
+      return await extractChapterIndexTerms({ workflowId, topic, chapter, logger });
+    } catch (error) {
+      logger?.warn("⚠️ [BookIndex] Skipping chapter index terms", {
+        chapterNumber: chapter.number,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  })).flat();
+
+  // The first spelling of a heading names the merged entry
+  const merged = new Map<string, IndexTerm>();
+  for (const term of extracted) {
+    const key = `${termKey(term.term)}\u0000${term.subterm ? termKey(term.subterm) : ''}`;
+    const existing = merged.get(key);
+    merged.set(key, existing
+      ? { ...existing, occurrences: [...existing.occurrences, ...term.occurrences] }
+      : term);
+  }
+
+  return [...merged.values()].filter(term => term.occurrences.length > 0);
+};
+
+// Anchors the first use of `pattern` on a line, or marks a use another pass already linked
+const anchorLine = (line: string, pattern: RegExp, id: string): string | null => {
+  const pieces = splitLine(line);
+  const anchored = replaceFirstMatch(pieces, pattern, matched => `[${matched}]{#${id}}`);
+  if (anchored) {
+    return joinPieces(anchored);
+  }
+
+  const labelled = findLabelledMatch(pieces, pattern);
+  if (labelled === -1) {
+    return null;
+  }
+  const marker: TextPiece = { text: `[]{#${id}}`, locked: true };
+  return joinPieces([...pieces.slice(0, labelled), marker, ...pieces.slice(labelled)]);
+};
+
+/**
+ * Anchors each index term's occurrences in the sections (the first use in each
+ * section it's discussed in) and builds the two-level index pointing at them.
+ * Locators are labelled with the section number; occurrences whose phrase no
+ * longer appears in prose are dropped, along with entries left without any.
+ */
+export const anchorIndexTerms = <S extends BookSection>(
+  sections: S[],
+  terms: IndexTerm[],
+): { sections: S[]; index: BookIndexEntry[] } => {
+  const contents = sections.map(section => section.content);
+  const sectionLabels = sections.map((section, position) =>
+    `${section.chapterNumber}.${sections.slice(0, position + 1).filter(other => other.chapterNumber === section.chapterNumber).length}`);
+  const anchorPositions = new Map<string, number>();
+
+  const locate = (occurrences: IndexTerm['occurrences']): BookIndexLocator[] => occurrences
+    .map(occurrence => ({
+      occurrence,
+      position: sections.findIndex(section => section.chapterNumber === occurrence.chapterNumber
+        && normalizeTitle(section.title) === normalizeTitle(occurrence.sectionTitle)),
+    }))
+    .filter(({ position }) => position !== -1)
+    .sort((a, b) => a.position - b.position)
+    .flatMap(({ occurrence, position }) => {
+      const id = `index-${anchorPositions.size + 1}`;
+      const pattern = termPattern(occurrence.phrase);
+      let anchored = false;
+      contents[position] = mapProseLines(contents[position], line => {
+        if (anchored) {
+          return line;
+        }
+        const rewritten = anchorLine(line, pattern, id);
+        anchored = rewritten !== null;
+        return rewritten ?? line;
+      });
+      if (!anchored) {
+        return [];
+      }
+      anchorPositions.set(id, position);
+      return [{ id, label: sectionLabels[position] }];
+    });
+
+  const entries = new Map<string, BookIndexEntry>();
+  for (const term of terms) {
+    const key = termKey(term.term);
+    const entry = entries.get(key) ?? { term: term.term, locators: [], subentries: [] };
+    const locators = locate(term.occurrences);
+    if (term.subterm) {
+      if (locators.length > 0) {
+        entry.subentries.push({ term: term.subterm, locators });
+      }
+    } else {
+      entry.locators.push(...locators);
+    }
+    entries.set(key, entry);
+  }
+
+  return {
+    sections: sections.map((section, position) => ({ ...section, content: contents[position] })),
+    index: [...entries.values()]
+      .filter(entry => entry.locators.length > 0 || entry.subentries.length > 0)
+      .map(entry => ({
+        ...entry,
+        // Terms merged from several chapters list their pages in reading order
+        locators: entry.locators.sort((a, b) => anchorPositions.get(a.id)! - anchorPositions.get(b.id)!),
+        subentries: entry.subentries.sort((a, b) => compareTerms(a.term, b.term)),
+      }))
+      .sort((a, b) => compareTerms(a.term, b.term)),
+  };
+};
@@ -0,0 +1,84 @@
+// Helpers for passes that rewrite the prose of generated Markdown (glossary
+// links, index anchors) without touching headings, code or existing links.
+
+// Inline constructs whose text must not be rewritten: code spans, links,
+// anchors, autolinked URLs and backslash escapes
+const PROTECTED_INLINE_PATTERN = /(`+)[\s\S]*?[^`]\1(?!`)|\[[^\]]*\]\([^)\s]*\)|\[[^\]]*\]\{#[^}]*\}|https?:\/\/\S+|\\./g;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING_PATTERN = /^ {0,3}#{1,6}(?:\s|$)/;
+const LABELLED_PATTERN = /^\[([^\]]*)\](?:\(|\{#)/;
+
+// A run of a line; locked pieces are protected or already rewritten
+export interface TextPiece {
+  text: string;
+  locked: boolean;
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Matches a whole-word use of a term, including its plural
+export const termPattern = (term: string): RegExp =>
+  new RegExp(`(?<![\\w-])${escapeRegExp(term)}(?:s|es)?(?![\\w-])`, 'i');
+
+export const splitLine = (line: string): TextPiece[] => {
+  const pieces: TextPiece[] = [];
+  let last = 0;
+  for (const match of line.matchAll(PROTECTED_INLINE_PATTERN)) {
+    pieces.push({ text: line.slice(last, match.index), locked: false }, { text: match[0], locked: true });
+    last = match.index! + match[0].length;
+  }
+  pieces.push({ text: line.slice(last), locked: false });
+  return pieces;
+};
+
+export const joinPieces = (pieces: TextPiece[]): string => pieces.map(piece => piece.text).join('');
+
+/**
+ * Rewrites the first unlocked match of `pattern` with `replace`, locking the
+ * result. Returns null when no unlocked piece matches.
+ */
+export const replaceFirstMatch = (
+  pieces: TextPiece[],
+  pattern: RegExp,
+  replace: (matched: string) => string,
+): TextPiece[] | null => {
+  const pieceIndex = pieces.findIndex(piece => !piece.locked && pattern.test(piece.text));
+  if (pieceIndex === -1) {
+    return null;
+  }
+
+  const piece = pieces[pieceIndex];
+  const match = piece.text.match(pattern)!;
+  return [
+    ...pieces.slice(0, pieceIndex),
+    { text: piece.text.slice(0, match.index), locked: false },
+    { text: replace(match[0]), locked: true },
+    { text: piece.text.slice(match.index! + match[0].length), locked: false },
+    ...pieces.slice(pieceIndex + 1),
+  ];
+};
+
+// Index of the first link or anchor whose text matches `pattern`, for marking a use another pass already rewrote
+export const findLabelledMatch = (pieces: TextPiece[], pattern: RegExp): number =>
+  pieces.findIndex(piece => {
+    const labelled = piece.text.match(LABELLED_PATTERN);
+    return piece.locked && labelled !== null && pattern.test(labelled[1]);
+  });
+
+// Applies `rewrite` to each prose line of a Markdown document, skipping headings and fenced code
+export const mapProseLines = (markdown: string, rewrite: (line: string) => string): string => {
+  let inFence: string | null = null;
+
+  return markdown.split('\n').map(line => {
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      if (inFence === null) {
+        inFence = fence[1][0];
+      } else if (fence[1][0] === inFence) {
+        inFence = null;
+      }
+      return line;
+    }
+    return inFence !== null || HEADING_PATTERN.test(line) ? line : rewrite(line);
+  }).join('\n');
+};
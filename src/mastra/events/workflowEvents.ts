@@ -0,0 +1,86 @@
+import { EventEmitter } from "events";
+
+import type { ProgressSummary } from "../tools/progressTrackingTool";
+
+// Events published while a run is executing, streamed to clients over SSE
+export type WorkflowEvent =
+  | {
+      type: "progress-updated";
+      progress: ProgressSummary;
+    }
+  | {
+      type: "section-completed";
+      chapterNumber: number;
+      sectionIndex: number;
+      sectionTitle: string;
+      wordCount: number;
+    }
+  | {
+      type: "chapter-completed";
+      chapterNumber: number;
+      title: string;
+      wordCount: number;
+    }
+  | {
+      type: "review-scored";
+      qualityScore: number;
+      approvedForPublication: boolean;
+      // 0 for the initial review, then one per revise-and-rereview round
+      revisionRound: number;
+      issueCount: number;
+    }
+  | {
+      type: "approval-requested";
+      stepId: string;
+      kind: "outline" | "publication";
+    }
+  | {
+      type: "workflow-completed";
+      bookPath?: string;
+    }
+  | {
+      type: "workflow-failed";
+      error: string;
+    };
+
+export type WorkflowEventEnvelope = WorkflowEvent & {
+  workflowId: string;
+  timestamp: string;
+};
+
+export type WorkflowEventType = WorkflowEvent["type"];
+
+export const TERMINAL_WORKFLOW_EVENTS: WorkflowEventType[] = [
+  "workflow-completed",
+  "workflow-failed",
+];
+
+// Workflow steps run inside the Mastra server process (Inngest calls back into
+// /api/inngest), so an in-process emitter reaches every SSE subscriber.
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+const channelFor = (workflowId: string): string => `workflow:${workflowId}`;
+
+export function emitWorkflowEvent(
+  workflowId: string,
+  event: WorkflowEvent,
+): void {
+  const envelope: WorkflowEventEnvelope = {
+    ...event,
+    workflowId,
+    timestamp: new Date().toISOString(),
+  };
+  emitter.emit(channelFor(workflowId), envelope);
+}
+
+export function subscribeToWorkflowEvents(
+  workflowId: string,
+  listener: (event: WorkflowEventEnvelope) => void,
+): () => void {
+  const channel = channelFor(workflowId);
+  emitter.on(channel, listener);
+  return () => {
+    emitter.off(channel, listener);
+  };
+}
@@ -0,0 +1,34 @@
+import { collectAnchorIds } from "./markdown";
+
+// Where each `[text]{#id}` anchor sits in the book, so formats that write a file
+// per chapter or per section can point in-book links at the right file.
+
+export interface AnchorLocation {
+  chapterIndex: number;
+  sectionIndex: number;
+}
+
+export const locateAnchors = (chapters: { sections: { content: string }[] }[]): Map<string, AnchorLocation> => {
+  const locations = new Map<string, AnchorLocation>();
+
+  chapters.forEach((chapter, chapterIndex) => {
+    chapter.sections.forEach((section, sectionIndex) => {
+      for (const id of collectAnchorIds(section.content)) {
+        if (!locations.has(id)) {
+          locations.set(id, { chapterIndex, sectionIndex });
+        }
+      }
+    });
+  });
+
+  return locations;
+};
+
+// A `resolveLink` option that prefixes `#id` links with the file holding the anchor
+export const linkResolver = (
+  locations: Map<string, AnchorLocation>,
+  fileFor: (location: AnchorLocation) => string,
+) => (href: string): string => {
+  const location = locations.get(href.slice(1));
+  return location ? `${fileFor(location)}${href}` : href;
+};
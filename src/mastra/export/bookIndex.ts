@@ -0,0 +1,88 @@
+import { z } from "zod";
+import { escapeMarkdown } from "./markdown";
+
+// Back-of-book index. Every locator points at an `[text]{#id}` anchor in the
+// chapter text; formats that know where pages break (the PDF) show the page
+// number, the rest show the section number as a link.
+
+export const bookIndexLocatorSchema = z.object({
+  // Anchor id in the chapter text
+  id: z.string(),
+  // Section number shown where page numbers aren't known, e.g. "3.2"
+  label: z.string(),
+});
+
+export type BookIndexLocator = z.infer<typeof bookIndexLocatorSchema>;
+
+export const bookIndexEntrySchema = z.object({
+  term: z.string(),
+  locators: z.array(bookIndexLocatorSchema),
+  subentries: z.array(z.object({
+    term: z.string(),
+    locators: z.array(bookIndexLocatorSchema),
+  })),
+});
+
+export type BookIndexEntry = z.infer<typeof bookIndexEntrySchema>;
+
+interface IndexChapter {
+  title: string;
+  appendix: true;
+  sections: { title: string; content: string }[];
+}
+
+// Groups items under the upper-case initial of their term, with anything else under "#"
+export const groupByInitial = <T>(items: T[], termOf: (item: T) => string): [string, T[]][] => {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const initial = termOf(item).charAt(0).toUpperCase();
+    const letter = /[A-Z]/.test(initial) ? initial : '#';
+    groups.set(letter, [...(groups.get(letter) ?? []), item]);
+  }
+  return [...groups.entries()];
+};
+
+const renderLocators = (locators: BookIndexLocator[], pageNumbers?: Map<string, number>): string => {
+  const seen = new Set<string>();
+  return locators
+    .map(locator => ({ id: locator.id, text: pageNumbers?.get(locator.id)?.toString() ?? locator.label }))
+    // Several uses on one page (or in one section) are listed once
+    .filter(locator => {
+      if (seen.has(locator.text)) {
+        return false;
+      }
+      seen.add(locator.text);
+      return true;
+    })
+    .map(locator => `[${locator.text}](#${locator.id})`)
+    .join(', ');
+};
+
+const renderEntry = (term: string, locators: BookIndexLocator[], pageNumbers?: Map<string, number>): string =>
+  locators.length > 0 ? `${escapeMarkdown(term)}, ${renderLocators(locators, pageNumbers)}` : escapeMarkdown(term);
+
+/**
+ * The index as sections, one per initial letter: a list of terms with their
+ * subentries nested beneath them. `pageNumbers` maps anchor ids to pages.
+ */
+export const renderIndexSections = (
+  index: BookIndexEntry[],
+  pageNumbers?: Map<string, number>,
+): { title: string; content: string }[] =>
+  groupByInitial(index, entry => entry.term).map(([letter, entries]) => ({
+    title: letter,
+    content: entries.map(entry => [
+      `- ${renderEntry(entry.term, entry.locators, pageNumbers)}`,
+      ...entry.subentries.map(subentry => `  - ${renderEntry(subentry.term, subentry.locators, pageNumbers)}`),
+    ].join('\n')).join('\n'),
+  }));
+
+// The chapters with the index appended as the last appendix, when there is one
+export const withIndexAppendix = <C>(
+  chapters: C[],
+  index: BookIndexEntry[] = [],
+  pageNumbers?: Map<string, number>,
+): (C | IndexChapter)[] =>
+  index.length > 0
+    ? [...chapters, { title: 'Index', appendix: true, sections: renderIndexSections(index, pageNumbers) }]
+    : chapters;
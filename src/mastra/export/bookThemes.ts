@@ -0,0 +1,204 @@
+import { z } from "zod";
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { extname, join, relative, resolve } from "path";
+
+// Book themes live in their own directories under themes/ (or BOOK_THEMES_DIR):
+// a theme.json describing the page setup and running heads, a stylesheet, and
+// optionally a fonts/ folder. Adding a directory makes a new theme available to
+// the PDF tool without any code changes.
+
+export const BOOK_PAGE_SIZES = {
+  A4: '210mm 297mm',
+  Letter: '8.5in 11in',
+  '6x9': '6in 9in',
+} as const;
+
+export type BookPageSize = keyof typeof BOOK_PAGE_SIZES;
+
+export const DEFAULT_BOOK_THEME = 'textbook';
+
+// Theme names double as directory names, so nothing that could walk out of the themes directory
+const THEME_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+const FONT_FORMATS: Record<string, { format: string; mimeType: string }> = {
+  '.woff2': { format: 'woff2', mimeType: 'font/woff2' },
+  '.woff': { format: 'woff', mimeType: 'font/woff' },
+  '.ttf': { format: 'truetype', mimeType: 'font/ttf' },
+  '.otf': { format: 'opentype', mimeType: 'font/otf' },
+};
+
+// Text for the left, centre and right margin boxes. Placeholders: {bookTitle},
+// {chapter} ("Chapter 2: Title", or "Contents" on the table of contents),
+// {page} and {pages}.
+const runningTextSchema = z.object({
+  left: z.string().optional(),
+  center: z.string().optional(),
+  right: z.string().optional(),
+});
+
+export const bookThemeSchema = z.object({
+  description: z.string().optional(),
+  pageSize: z.enum(Object.keys(BOOK_PAGE_SIZES) as [BookPageSize, ...BookPageSize[]]).default('A4'),
+  margins: z.object({
+    top: z.string(),
+    right: z.string(),
+    bottom: z.string(),
+    left: z.string(),
+  }).default({ top: '20mm', right: '15mm', bottom: '20mm', left: '15mm' }),
+  stylesheet: z.string().default('theme.css'),
+  // Font files inside the theme directory, embedded into the rendered book
+  fonts: z.array(z.object({
+    family: z.string(),
+    file: z.string(),
+    weight: z.union([z.string(), z.number()]).optional(),
+    style: z.enum(['normal', 'italic']).optional(),
+  })).default([]),
+  header: runningTextSchema.default({}),
+  footer: runningTextSchema.default({ center: '{page} / {pages}' }),
+});
+
+export type BookThemeConfig = z.infer<typeof bookThemeSchema>;
+
+export interface BookTheme extends BookThemeConfig {
+  name: string;
+  css: string;
+  fontFaces: string;
+}
+
+export interface RunningHead {
+  // CSS named page the running head applies to
+  pageName: string;
+  chapter: string;
+}
+
+export const getBookThemesDir = (): string =>
+  process.env.BOOK_THEMES_DIR || join(process.cwd(), 'themes');
+
+export const listBookThemes = (): string[] => {
+  const themesDir = getBookThemesDir();
+  if (!existsSync(themesDir)) {
+    return [];
+  }
+
+  return readdirSync(themesDir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && THEME_NAME_PATTERN.test(entry.name) && existsSync(join(themesDir, entry.name, 'theme.json')))
+    .map(entry => entry.name)
+    .sort();
+};
+
+// Resolves a path from theme.json, refusing anything outside the theme directory
+const resolveThemeFile = (themeDir: string, file: string): string => {
+  const path = resolve(themeDir, file);
+  if (relative(themeDir, path).startsWith('..')) {
+    throw new Error(`Theme file "${file}" is outside the theme directory`);
+  }
+  return path;
+};
+
+const renderFontFaces = (themeDir: string, fonts: BookThemeConfig['fonts']): string =>
+  fonts.map(font => {
+    const path = resolveThemeFile(themeDir, font.file);
+    const fontFormat = FONT_FORMATS[extname(path).toLowerCase()];
+    if (!fontFormat) {
+      throw new Error(`Unsupported font file "${font.file}" (use ${Object.keys(FONT_FORMATS).join(', ')})`);
+    }
+    if (!existsSync(path)) {
+      throw new Error(`Font file "${font.file}" not found`);
+    }
+
+    // Embedded as data URIs because the book is rendered from a string, with no base URL for relative paths
+    const source = `url("data:${fontFormat.mimeType};base64,${readFileSync(path).toString('base64')}") format("${fontFormat.format}")`;
+    return [
+      '@font-face {',
+      `  font-family: ${JSON.stringify(font.family)};`,
+      `  src: ${source};`,
+      font.weight !== undefined ? `  font-weight: ${font.weight};` : '',
+      font.style ? `  font-style: ${font.style};` : '',
+      '}',
+    ].filter(Boolean).join('\n');
+  }).join('\n');
+
+/**
+ * Loads a theme by directory name. Throws when the theme doesn't exist or its
+ * theme.json, stylesheet or fonts are invalid.
+ */
+export const loadBookTheme = (name: string): BookTheme => {
+  if (!THEME_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid theme name "${name}"`);
+  }
+
+  const themeDir = join(getBookThemesDir(), name);
+  const configPath = join(themeDir, 'theme.json');
+  if (!existsSync(configPath)) {
+    const available = listBookThemes();
+    throw new Error(`Unknown theme "${name}"${available.length > 0 ? ` (available: ${available.join(', ')})` : ''}`);
+  }
+
+  const parsed = bookThemeSchema.safeParse(JSON.parse(readFileSync(configPath, 'utf8')));
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid theme.json for theme "${name}": ${issues.join('; ')}`);
+  }
+
+  const config = parsed.data;
+  const stylesheetPath = resolveThemeFile(themeDir, config.stylesheet);
+
+  return {
+    ...config,
+    name,
+    css: existsSync(stylesheetPath) ? readFileSync(stylesheetPath, 'utf8') : '',
+    fontFaces: renderFontFaces(themeDir, config.fonts),
+  };
+};
+
+// The theme asked for, then BOOK_THEME, then the built-in default
+export const resolveBookThemeName = (requested?: string): string =>
+  requested || process.env.BOOK_THEME || DEFAULT_BOOK_THEME;
+
+// Titles come from the model and end up inside a <style> element, so `<` is escaped too
+const cssString = (text: string): string =>
+  `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/</g, '\\3C ').replace(/\n/g, '\\A ')}"`;
+
+// Turns a running head template into a CSS `content` value
+const runningContent = (template: string, values: { bookTitle: string; chapter: string }): string => {
+  const parts = template.split(/(\{page\}|\{pages\})/).filter(Boolean).map(part => {
+    if (part === '{page}') {
+      return 'counter(page)';
+    }
+    if (part === '{pages}') {
+      return 'counter(pages)';
+    }
+    return cssString(part.replace(/\{bookTitle\}/g, () => values.bookTitle).replace(/\{chapter\}/g, () => values.chapter));
+  });
+  return parts.length > 0 ? parts.join(' ') : 'none';
+};
+
+const MARGIN_BOXES = [
+  ['header', 'left', 'top-left'],
+  ['header', 'center', 'top-center'],
+  ['header', 'right', 'top-right'],
+  ['footer', 'left', 'bottom-left'],
+  ['footer', 'center', 'bottom-center'],
+  ['footer', 'right', 'bottom-right'],
+] as const;
+
+/**
+ * @page rules for the theme's page size, margins and running heads. Each
+ * running head is a CSS named page, so the header can show the chapter the
+ * page belongs to; pages with no named page (the title page) get none.
+ */
+export const renderPageRules = (theme: BookTheme, bookTitle: string, runningHeads: RunningHead[]): string => {
+  const marginBoxes = (chapter: string): string =>
+    MARGIN_BOXES.map(([band, position, box]) => {
+      const template = theme[band][position];
+      return `  @${box} { content: ${template ? runningContent(template, { bookTitle, chapter }) : 'none'}; }`;
+    }).join('\n');
+
+  return [
+    `@page {
+  size: ${BOOK_PAGE_SIZES[theme.pageSize]};
+  margin: ${theme.margins.top} ${theme.margins.right} ${theme.margins.bottom} ${theme.margins.left};
+}`,
+    ...runningHeads.map(head => `@page ${head.pageName} {\n${marginBoxes(head.chapter)}\n}`),
+  ].join('\n');
+};
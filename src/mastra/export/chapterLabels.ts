@@ -0,0 +1,18 @@
+// Chapters are numbered in reading order; back matter such as the answer key is
+// marked as an appendix and lettered instead, so it doesn't take a chapter number.
+
+export interface LabelledChapter {
+  title: string;
+  appendix?: boolean;
+}
+
+// "Chapter 3" or "Appendix B" for the chapter at `index`
+export const chapterLabel = (chapters: LabelledChapter[], index: number): string => {
+  const appendix = Boolean(chapters[index].appendix);
+  const position = chapters.slice(0, index + 1).filter(chapter => Boolean(chapter.appendix) === appendix).length;
+  return appendix ? `Appendix ${String.fromCharCode(64 + position)}` : `Chapter ${position}`;
+};
+
+// "Chapter 3: Title", as chapter headings and tables of contents show it
+export const chapterHeading = (chapters: LabelledChapter[], index: number): string =>
+  `${chapterLabel(chapters, index)}: ${chapters[index].title}`;
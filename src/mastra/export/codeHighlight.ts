@@ -0,0 +1,460 @@
+import { escapeHtml } from "./markdown";
+
+// Offline syntax highlighting for fenced code blocks. Each language is a small
+// set of token rules; identifiers are classified afterwards against keyword
+// lists, so keywords never match inside longer names.
+
+type TokenType =
+  | 'comment'
+  | 'string'
+  | 'number'
+  | 'keyword'
+  | 'literal'
+  | 'builtin'
+  | 'function'
+  | 'property'
+  | 'variable'
+  | 'meta'
+  | 'tag'
+  | 'attr';
+
+interface Token {
+  type?: TokenType;
+  text: string;
+}
+
+interface LanguageDefinition {
+  label: string;
+  rules: Array<[TokenType, RegExp]>;
+  keywords?: string[];
+  literals?: string[];
+  builtins?: string[];
+  caseInsensitive?: boolean;
+}
+
+// Code blocks up to this many lines are kept on one page; longer ones may break between lines
+const UNBREAKABLE_BLOCK_LINES = 30;
+
+const words = (list: string): string[] => list.split(/\s+/).filter(Boolean);
+
+const C_COMMENTS: Array<[TokenType, RegExp]> = [
+  ['comment', /\/\/[^\n]*/y],
+  ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y],
+];
+
+const QUOTED_STRINGS: Array<[TokenType, RegExp]> = [
+  ['string', /"(?:\\[\s\S]|[^\\"\n])*"?/y],
+  ['string', /'(?:\\[\s\S]|[^\\'\n])*'?/y],
+];
+
+const NUMBER: [TokenType, RegExp] = [
+  'number',
+  /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d+)?[nLlFfDdUu]*)/y,
+];
+
+const JS_KEYWORDS = words(`
+  async await break case catch class const continue debugger default delete do else export extends
+  finally for from function get if import in instanceof let new of return set static super switch
+  this throw try typeof var void while with yield`);
+
+const javascript: LanguageDefinition = {
+  label: 'JavaScript',
+  rules: [
+    ...C_COMMENTS,
+    ['string', /`(?:\\[\s\S]|[^\\`])*`?/y],
+    ...QUOTED_STRINGS,
+    NUMBER,
+  ],
+  keywords: JS_KEYWORDS,
+  literals: words('true false null undefined NaN Infinity'),
+  builtins: words('console window document Math JSON Promise Array Object String Number Boolean Map Set Symbol Date Error RegExp require module exports process'),
+};
+
+const typescript: LanguageDefinition = {
+  ...javascript,
+  label: 'TypeScript',
+  keywords: [...JS_KEYWORDS, ...words('abstract as declare enum implements interface keyof namespace private protected public readonly satisfies type')],
+  builtins: [...javascript.builtins!, ...words('string number boolean any unknown never void object Record Partial Readonly Pick Omit')],
+};
+
+const python: LanguageDefinition = {
+  label: 'Python',
+  rules: [
+    ['comment', /#[^\n]*/y],
+    ['string', /[rRbBuUfF]{0,2}("""|''')[\s\S]*?(?:\1|$)/y],
+    ['string', /[rRbBuUfF]{0,2}"(?:\\[\s\S]|[^\\"\n])*"?/y],
+    ['string', /[rRbBuUfF]{0,2}'(?:\\[\s\S]|[^\\'\n])*'?/y],
+    ['meta', /@[\w.]+/y],
+    NUMBER,
+  ],
+  keywords: words(`
+    and as assert async await break class continue def del elif else except finally for from global
+    if import in is lambda match case nonlocal not or pass raise return try while with yield`),
+  literals: words('True False None'),
+  builtins: words('print len range enumerate zip map filter list dict set tuple str int float bool open super isinstance type sorted sum min max any all self cls'),
+};
+
+const bash: LanguageDefinition = {
+  label: 'Shell',
+  rules: [
+    ['comment', /(?<![^\s])#[^\n]*/y],
+    ['string', /"(?:\\[\s\S]|[^\\"])*"?/y],
+    ['string', /'[^']*'?/y],
+    ['variable', /\$(?:\{[^}\n]*\}?|[\w@#?*!$-]+)/y],
+    NUMBER,
+  ],
+  keywords: words('if then else elif fi for while until do done case esac in function return export local readonly select break continue'),
+  builtins: words('echo cd ls cat grep sed awk sudo npm npx node pip python python3 git mkdir rm cp mv curl chmod source set unset exit'),
+};
+
+const json: LanguageDefinition = {
+  label: 'JSON',
+  rules: [
+    ['property', /"(?:\\.|[^\\"\n])*"(?=\s*:)/y],
+    ['string', /"(?:\\.|[^\\"\n])*"?/y],
+    ['number', /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y],
+  ],
+  literals: words('true false null'),
+};
+
+const sql: LanguageDefinition = {
+  label: 'SQL',
+  rules: [
+    ['comment', /--[^\n]*/y],
+    ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y],
+    ['string', /'(?:''|[^'])*'?/y],
+    NUMBER,
+  ],
+  keywords: words(`
+    SELECT FROM WHERE AND OR NOT INSERT INTO VALUES UPDATE SET DELETE CREATE TABLE DROP ALTER ADD
+    INDEX VIEW JOIN INNER LEFT RIGHT OUTER FULL ON AS GROUP BY ORDER HAVING LIMIT OFFSET DISTINCT
+    UNION ALL PRIMARY KEY FOREIGN REFERENCES DEFAULT CASE WHEN THEN ELSE END IN IS LIKE BETWEEN EXISTS
+    ASC DESC WITH RETURNING CONSTRAINT UNIQUE CHECK`),
+  literals: words('NULL TRUE FALSE'),
+  builtins: words('COUNT SUM AVG MIN MAX COALESCE NOW LOWER UPPER INTEGER INT VARCHAR TEXT BOOLEAN DATE TIMESTAMP SERIAL'),
+  caseInsensitive: true,
+};
+
+const css: LanguageDefinition = {
+  label: 'CSS',
+  rules: [
+    ['comment', /\/\*[\s\S]*?(?:\*\/|$)/y],
+    ...QUOTED_STRINGS,
+    ['meta', /@[\w-]+/y],
+    ['property', /[\w-]+(?=\s*:[^:{]*[;}\n])/y],
+    ['number', /#[\da-fA-F]{3,8}\b|-?\d*\.?\d+(?:px|em|rem|%|vh|vw|pt|s|ms|deg)?/y],
+  ],
+  keywords: words('important inherit initial none auto'),
+};
+
+const html: LanguageDefinition = {
+  label: 'HTML',
+  rules: [
+    ['comment', /<!--[\s\S]*?(?:-->|$)/y],
+    ['meta', /<!DOCTYPE[^>]*>/iy],
+    ['tag', /<\/?[\w:-]+|\/?>/y],
+    ['attr', /[\w:-]+(?==)/y],
+    ...QUOTED_STRINGS,
+  ],
+};
+
+const cLike = (label: string, keywords: string, builtins = ''): LanguageDefinition => ({
+  label,
+  rules: [...C_COMMENTS, ...QUOTED_STRINGS, ['meta', /^[ \t]*#\w+|@\w+/my], NUMBER],
+  keywords: words(keywords),
+  literals: words('true false null nullptr nil None'),
+  builtins: words(builtins),
+});
+
+const CONTROL_FLOW = 'if else for while do switch case default break continue return try catch finally throw new';
+
+const LANGUAGES: Record<string, LanguageDefinition> = {
+  javascript,
+  typescript,
+  python,
+  bash,
+  json,
+  sql,
+  css,
+  html,
+  java: cLike('Java', `${CONTROL_FLOW} class interface extends implements public private protected static final abstract void import package this super instanceof enum var throws synchronized`, 'String System Integer List Map ArrayList HashMap Object int long double float boolean char byte'),
+  c: cLike('C', `${CONTROL_FLOW} struct union enum typedef static const extern sizeof void goto unsigned signed volatile`, 'int long short char float double printf malloc free size_t'),
+  cpp: cLike('C++', `${CONTROL_FLOW} class struct namespace using template typename public private protected virtual override const static auto void delete this`, 'int long char float double bool std string vector cout cin endl'),
+  csharp: cLike('C#', `${CONTROL_FLOW} class interface struct namespace using public private protected internal static readonly const void var async await override virtual this base`, 'string int bool double decimal Console List Task'),
+  go: cLike('Go', `${CONTROL_FLOW} func package import var const type struct interface map chan go defer range select fallthrough goto`, 'fmt string int int64 float64 bool error byte rune len make append'),
+  rust: cLike('Rust', `${CONTROL_FLOW} fn let mut impl trait struct enum pub use mod match loop where as ref move unsafe async await self Self crate`, 'String Vec Option Some Result Ok Err Box println i32 i64 u32 u64 f64 usize bool str'),
+};
+
+const ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  node: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  python3: 'python',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  console: 'bash',
+  postgres: 'sql',
+  postgresql: 'sql',
+  mysql: 'sql',
+  xml: 'html',
+  xhtml: 'html',
+  'c++': 'cpp',
+  cs: 'csharp',
+  golang: 'go',
+  rs: 'rust',
+};
+
+export const resolveLanguage = (name: string | undefined): string | undefined => {
+  const normalized = name?.trim().toLowerCase();
+  if (!normalized) {
+    return undefined;
+  }
+  const resolved = ALIASES[normalized] ?? normalized;
+  return LANGUAGES[resolved] ? resolved : undefined;
+};
+
+// Each pattern that matches adds its weight to the language's score
+const DETECTION_HINTS: Array<[string, RegExp, number]> = [
+  ['python', /^\s*def \w+\(.*\)\s*(->\s*[\w[\], ]+)?:\s*$/m, 3],
+  ['python', /^\s*(from [\w.]+ )?import [\w.]+(?: as \w+)?\s*$/m, 1],
+  ['python', /^\s*(elif|except|class \w+(\(.*\))?:)/m, 2],
+  ['python', /\bself\.\w+|\bprint\(|\bNone\b|\bTrue\b/, 1],
+  ['javascript', /\b(const|let|var)\s+[\w{[]/, 2],
+  ['javascript', /=>|\bfunction\b\s*\w*\s*\(/, 2],
+  ['javascript', /\bconsole\.\w+\(|\brequire\(|\bimport .* from ['"]|\bexport (default|const|function)\b/, 2],
+  ['typescript', /\b(interface|type)\s+\w+\s*[={<]|:\s*(string|number|boolean|void)\b|\bimplements\b/, 4],
+  ['bash', /^#!\/(usr\/)?bin\/(env )?(ba|z)?sh/m, 5],
+  ['bash', /^\s*(\$ )?(sudo|npm|npx|pip|cd|echo|export|git|curl|mkdir|apt(-get)?)\s/m, 3],
+  ['sql', /\b(SELECT\s+[\s\S]+?\s+FROM|INSERT\s+INTO|CREATE\s+TABLE|UPDATE\s+\w+\s+SET|DELETE\s+FROM)\b/i, 5],
+  ['html', /^\s*<(!DOCTYPE|html|head|body|div|span|p|ul|a|script|section)\b/im, 5],
+  ['css', /^\s*[.#]?[\w-]+(\s*[\w.#:>-]+)*\s*\{\s*$|^\s*[\w-]+\s*:\s*[^;{]+;\s*$/m, 2],
+  ['java', /\bpublic\s+(static\s+)?(class|void)\b|System\.out\.print/, 5],
+  ['go', /^\s*package \w+\s*$|\bfunc\s+\w*\(|:=/m, 3],
+  ['rust', /\bfn\s+\w+\s*\(|\blet\s+mut\b|println!/, 4],
+  ['cpp', /#include\s*<\w+(\.h)?>|std::/, 4],
+];
+
+// Best guess at the language of an unlabelled block, or undefined when nothing stands out
+export const detectLanguage = (code: string): string | undefined => {
+  const trimmed = code.trim();
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      JSON.parse(trimmed);
+      return 'json';
+    } catch {
+      // Not JSON; fall through to the hints
+    }
+  }
+
+  const scores = new Map<string, number>();
+  for (const [language, pattern, weight] of DETECTION_HINTS) {
+    if (pattern.test(code)) {
+      scores.set(language, (scores.get(language) ?? 0) + weight);
+    }
+  }
+  // TypeScript hints only count on top of JavaScript-looking code
+  if (scores.has('typescript')) {
+    scores.set('typescript', scores.get('typescript')! + (scores.get('javascript') ?? 0));
+  }
+
+  const [best] = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+  return best && best[1] >= 2 ? best[0] : undefined;
+};
+
+const tokenize = (code: string, definition: LanguageDefinition): Token[] => {
+  const tokens: Token[] = [];
+  const identifier = /[A-Za-z_$][\w$]*/y;
+  const normalize = (word: string) => (definition.caseInsensitive ? word.toUpperCase() : word);
+  const keywords = new Set(definition.keywords?.map(normalize));
+  const literals = new Set(definition.literals?.map(normalize));
+  const builtins = new Set(definition.builtins?.map(normalize));
+
+  const push = (text: string, type?: TokenType) => {
+    const last = tokens[tokens.length - 1];
+    if (!type && last && !last.type) {
+      last.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  let position = 0;
+  while (position < code.length) {
+    let matched = false;
+    for (const [type, pattern] of definition.rules) {
+      pattern.lastIndex = position;
+      const match = pattern.exec(code);
+      if (match && match[0].length > 0) {
+        push(match[0], type);
+        position += match[0].length;
+        matched = true;
+        break;
+      }
+    }
+    if (matched) {
+      continue;
+    }
+
+    identifier.lastIndex = position;
+    const word = identifier.exec(code)?.[0];
+    if (word) {
+      const key = normalize(word);
+      const type: TokenType | undefined = keywords.has(key)
+        ? 'keyword'
+        : literals.has(key)
+          ? 'literal'
+          : builtins.has(key)
+            ? 'builtin'
+            : /^\s*\(/.test(code.slice(position + word.length, position + word.length + 8))
+              ? 'function'
+              : undefined;
+      push(word, type);
+      position += word.length;
+      continue;
+    }
+
+    push(code[position]);
+    position++;
+  }
+
+  return tokens;
+};
+
+// Splits tokens into lines, so a multi-line comment or string is closed and reopened on each line
+const toHighlightedLines = (tokens: Token[]): string[] => {
+  const lines: string[] = [''];
+  for (const token of tokens) {
+    token.text.split('\n').forEach((part, index) => {
+      if (index > 0) {
+        lines.push('');
+      }
+      if (part) {
+        lines[lines.length - 1] += token.type ? `<span class="tok-${token.type}">${escapeHtml(part)}</span>` : escapeHtml(part);
+      }
+    });
+  }
+  return lines;
+};
+
+export interface CodeBlockOptions {
+  // Number every line so the text can refer to them
+  lineNumbers?: boolean;
+}
+
+/**
+ * Renders a fenced code block as a highlighted, monospace box. The language
+ * comes from the fence (```js) or is detected; unknown languages are shown
+ * unhighlighted. Adding "numbered" to the fence (```python numbered) numbers
+ * that block even when line numbers are off for the book.
+ */
+export const renderCodeBlock = (
+  code: string,
+  fenceLanguage: string | undefined,
+  fenceMeta = '',
+  options: CodeBlockOptions = {},
+): string => {
+  // An explicit but unsupported language (```text) is shown as-is rather than guessed at
+  const language = fenceLanguage ? resolveLanguage(fenceLanguage) : detectLanguage(code);
+  const definition = language ? LANGUAGES[language] : undefined;
+  const source = code.replace(/\t/g, '    ').replace(/\s+$/, '');
+  const lines = definition
+    ? toHighlightedLines(tokenize(source, definition))
+    : source.split('\n').map(line => escapeHtml(line));
+  const numbered = options.lineNumbers || /\b(numbered|linenos|line-numbers)\b/.test(fenceMeta);
+
+  const classes = [
+    'code-block',
+    numbered ? 'numbered' : '',
+    lines.length > UNBREAKABLE_BLOCK_LINES ? 'long' : '',
+  ].filter(Boolean).join(' ');
+
+  // Real newlines between the lines keep copied and read-aloud code line by line
+  const body = lines.map((line, index) =>
+    `<span class="code-line">${numbered ? `<span class="line-number">${index + 1}</span>` : ''}${line || ' '}</span>`
+  ).join('\n');
+
+  return `<div class="${classes}"${language ? ` data-language="${language}"` : ''}>` +
+    (definition ? `<div class="code-language">${definition.label}</div>` : '') +
+    `<pre><code>${body}</code></pre></div>`;
+};
+
+// Styles for highlighted code blocks, shared by every export format
+export const CODE_BLOCK_CSS = `
+.code-block {
+  margin: 1em 0;
+  border: 1px solid #d0d7de;
+  border-radius: 4px;
+  background-color: #f6f8fa;
+  text-align: left;
+  page-break-inside: avoid;
+  break-inside: avoid;
+}
+.code-block.long {
+  page-break-inside: auto;
+  break-inside: auto;
+}
+.code-block pre {
+  margin: 0;
+  padding: 8px 12px;
+  font-family: "DejaVu Sans Mono", "Liberation Mono", "Courier New", monospace;
+  font-size: 0.8em;
+  line-height: 1.45;
+  white-space: pre-wrap;
+  overflow-wrap: anywhere;
+  background: none;
+  border: none;
+  orphans: 4;
+  widows: 4;
+}
+.code-block code {
+  font-family: inherit;
+  background: none;
+  padding: 0;
+}
+/* Lines are separated by the newlines in the <pre>; numbered lines are full-width boxes for the hanging indent */
+.code-line {
+  display: inline;
+}
+.code-block.numbered .code-line {
+  display: inline-block;
+  box-sizing: border-box;
+  width: 100%;
+  padding-left: 3.2em;
+  text-indent: -3.2em;
+  vertical-align: top;
+  page-break-inside: avoid;
+  break-inside: avoid;
+}
+.line-number {
+  display: inline-block;
+  width: 2.6em;
+  margin-right: 0.6em;
+  text-indent: 0;
+  text-align: right;
+  color: #8c959f;
+  white-space: pre;
+}
+.code-language {
+  padding: 2px 12px;
+  border-bottom: 1px solid #d0d7de;
+  font-family: Arial, sans-serif;
+  font-size: 0.7em;
+  color: #57606a;
+}
+.tok-comment { color: #6e7781; font-style: italic; }
+.tok-string { color: #0a3069; }
+.tok-number, .tok-literal { color: #0550ae; }
+.tok-keyword { color: #cf222e; font-weight: bold; }
+.tok-builtin { color: #8250df; }
+.tok-function { color: #6639ba; }
+.tok-property, .tok-attr { color: #116329; }
+.tok-variable { color: #953800; }
+.tok-meta { color: #8250df; }
+.tok-tag { color: #116329; font-weight: bold; }
+`;
@@ -0,0 +1,33 @@
+import { z } from "zod";
+
+// Outputs the final step can produce in addition to the PDF
+// `solutions` is an instructor PDF of the exercise solutions, which then stay out of the book
+export const BOOK_EXPORT_FORMATS = ['epub', 'docx', 'site', 'scorm', 'solutions'] as const;
+
+export type BookExportFormat = (typeof BOOK_EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<BookExportFormat, string> = {
+  epub: 'application/epub+zip',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  // A directory of pages served under /api/books rather than a single download
+  site: 'text/html',
+  scorm: 'application/zip',
+  solutions: 'application/pdf',
+};
+
+export const bookExportSchema = z.object({
+  format: z.enum(BOOK_EXPORT_FORMATS),
+  path: z.string(),
+  fileSize: z.number(),
+});
+
+export type BookExport = z.infer<typeof bookExportSchema>;
+
+export const isBookExportFormat = (value: string): value is BookExportFormat =>
+  (BOOK_EXPORT_FORMATS as readonly string[]).includes(value);
+
+// Formats requested for a run, falling back to the comma-separated BOOK_EXPORT_FORMATS env var
+export const resolveExportFormats = (requested?: string[]): BookExportFormat[] => {
+  const formats = requested ?? (process.env.BOOK_EXPORT_FORMATS ?? '').split(',');
+  return [...new Set(formats.map(format => format.trim().toLowerCase()).filter(isBookExportFormat))];
+};
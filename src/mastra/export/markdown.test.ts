@@ -0,0 +1,48 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { renderInlineMarkdown } from "./markdown";
+
+describe("renderInlineMarkdown", () => {
+  test("leaves emphasis markers inside link URLs alone", () => {
+    assert.equal(
+      renderInlineMarkdown('[docs](https://example.com/a*b*c)'),
+      '<a href="https://example.com/a*b*c">docs</a>',
+    );
+    assert.equal(
+      renderInlineMarkdown('[docs](https://example.com/a_b_c)'),
+      '<a href="https://example.com/a_b_c">docs</a>',
+    );
+  });
+
+  test("leaves strong and strikethrough markers inside link URLs alone", () => {
+    assert.equal(
+      renderInlineMarkdown('[docs](https://example.com/__init__.py) and [old](https://example.com/a~~b~~c)'),
+      '<a href="https://example.com/__init__.py">docs</a> and <a href="https://example.com/a~~b~~c">old</a>',
+    );
+    assert.equal(
+      renderInlineMarkdown('see [x](https://example.com/**y**)'),
+      'see <a href="https://example.com/**y**">x</a>',
+    );
+  });
+
+  test("still formats link labels and the text around links", () => {
+    assert.equal(
+      renderInlineMarkdown('*read* [the **docs**](https://example.com/a_b) ~~now~~'),
+      '<em>read</em> <a href="https://example.com/a_b">the <strong>docs</strong></a> <del>now</del>',
+    );
+  });
+
+  test("formats the labels of anchors without touching their ids", () => {
+    assert.equal(
+      renderInlineMarkdown('[*closures*]{#index-1} and [term](#index-1)'),
+      '<span id="index-1"><em>closures</em></span> and <a href="#index-1">term</a>',
+    );
+  });
+
+  test("rewrites in-book links without formatting the resolved URL", () => {
+    assert.equal(
+      renderInlineMarkdown('[term](#glossary-a)', { resolveLink: href => `chapter_1_b*.xhtml${href}` }),
+      '<a href="chapter_1_b*.xhtml#glossary-a">term</a>',
+    );
+  });
+});
@@ -0,0 +1,298 @@
+// Markdown-to-HTML renderer shared by every export format. Model output is
+// untrusted, so all text is HTML-escaped and raw HTML in the source is shown
+// literally rather than passed through. Output is well-formed XHTML, so EPUB
+// chapters can use it as-is.
+//
+// Beyond CommonMark basics, `[text]{#id}` (Pandoc's bracketed span) marks an
+// anchor that in-book links such as `[term](#id)` can point at.
+
+export interface MarkdownOptions {
+  // Added to every heading level (capped at h6), e.g. 1 to render `#` as <h2>
+  headingOffset?: number;
+  // Renders a fenced code block; defaults to a plain <pre><code> block. `meta` is
+  // whatever follows the language on the fence line.
+  renderCodeBlock?: (code: string, language: string | undefined, meta: string) => string;
+  // Rewrites in-book `#id` links, for formats that split the book across files
+  resolveLink?: (href: string) => string;
+}
+
+export type InlineMarkdownOptions = Pick<MarkdownOptions, 'resolveLink'>;
+
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Escapes text (model output, say) so Markdown shows it literally rather than as formatting
+export const escapeMarkdown = (text: string): string => text.replace(/[\\`*_[\]{}]/g, '\\$&');
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)([^`]*)$/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE_PATTERN = /^ {0,3}>\s?/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DELIMITER_PATTERN = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Only these link targets are rendered as links; anything else (javascript:, data:) stays text
+const SAFE_URL_PATTERN = /^(?:https?:\/\/|mailto:|#|\/|\.{0,2}\/)|^[\w-]+(?:\.[\w-]+)*(?:[/?#].*)?$/i;
+
+const ANCHOR_PATTERN = /\[([^\]]*)\]\{#([A-Za-z][\w-]*)\}/g;
+
+const PLACEHOLDER = '\u0000';
+
+const defaultCodeBlock = (code: string, language: string | undefined): string =>
+  `<pre><code${language ? ` class="language-${escapeHtml(language)}"` : ''}>${escapeHtml(code)}</code></pre>`;
+
+/**
+ * Renders inline Markdown: code spans, links, anchors, strong, emphasis and
+ * strikethrough. Code spans, backslash escapes and the tags of links and
+ * anchors are swapped out as they're rendered so nothing inside them is
+ * treated as formatting.
+ */
+export const renderInlineMarkdown = (text: string, options: InlineMarkdownOptions = {}): string => {
+  const protectedSpans: string[] = [];
+  const protect = (html: string): string => `${PLACEHOLDER}${protectedSpans.push(html) - 1}${PLACEHOLDER}`;
+
+  let html = text
+    .replace(new RegExp(PLACEHOLDER, 'g'), '')
+    .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_match, _ticks, code: string) => protect(`<code>${escapeHtml(code.trim())}</code>`))
+    .replace(/\\([\\`*_{}[\]()#+\-.!|~>])/g, (_match, char: string) => protect(escapeHtml(char)));
+
+  html = escapeHtml(html)
+    // Tags are protected so the formatting passes below can't rewrite their attributes
+    .replace(ANCHOR_PATTERN, (_match, label: string, id: string) => `${protect(`<span id="${id}">`)}${label}${protect('</span>')}`)
+    .replace(/\[([^\]]+)\]\(([^()\s]+)\)/g, (match, label: string, url: string) => {
+      // Entities are decoded for the safety check only; the escaped form goes in the attribute
+      if (!SAFE_URL_PATTERN.test(url.replace(/&amp;/g, '&'))) {
+        return label;
+      }
+      const href = url.startsWith('#') && options.resolveLink ? escapeHtml(options.resolveLink(url)) : url;
+      return `${protect(`<a href="${href}">`)}${label}${protect('</a>')}`;
+    })
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<strong>$2</strong>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+    // Underscores inside words (snake_case) are not emphasis
+    .replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+
+  return html.replace(new RegExp(`${PLACEHOLDER}(\\d+)${PLACEHOLDER}`, 'g'), (_match, index: string) => protectedSpans[Number(index)]);
+};
+
+const splitTableRow = (line: string): string[] =>
+  line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim());
+
+const isTableStart = (lines: string[], index: number): boolean =>
+  lines[index].includes('|') && index + 1 < lines.length && TABLE_DELIMITER_PATTERN.test(lines[index + 1]) && lines[index + 1].includes('-');
+
+const startsBlock = (line: string): boolean =>
+  FENCE_PATTERN.test(line) || HEADING_PATTERN.test(line) || RULE_PATTERN.test(line) || QUOTE_PATTERN.test(line) || LIST_ITEM_PATTERN.test(line);
+
+const indentOf = (line: string): number => line.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+
+export type TableAlignment = 'left' | 'center' | 'right';
+
+// Block structure shared by the HTML renderer and the formats that can't take HTML (DOCX).
+// Text fields hold raw inline Markdown; render them with renderInlineMarkdown.
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; lines: string[] }
+  | { type: 'code'; code: string; language?: string; meta: string }
+  | { type: 'rule' }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'table'; header: string[]; alignments: (TableAlignment | undefined)[]; rows: string[][] }
+  // Items of a loose list keep their paragraphs; a tight list's paragraphs render inline
+  | { type: 'list'; ordered: boolean; start: number; loose: boolean; items: MarkdownBlock[][] };
+
+const parseBlocks = (lines: string[]): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const marker = fence[1];
+      const code: string[] = [];
+      index++;
+      // An unclosed fence runs to the end of the content
+      while (index < lines.length && !lines[index].trim().startsWith(marker)) {
+        code.push(lines[index]);
+        index++;
+      }
+      index++;
+      blocks.push({ type: 'code', code: code.join('\n'), language: fence[2] || undefined, meta: fence[3].trim() });
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] ?? '' });
+      index++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'rule' });
+      index++;
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && QUOTE_PATTERN.test(lines[index])) {
+        quoted.push(lines[index].replace(QUOTE_PATTERN, ''));
+        index++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (isTableStart(lines, index)) {
+      const header = splitTableRow(line);
+      const alignments = splitTableRow(lines[index + 1]).map((cell): TableAlignment | undefined =>
+        cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : undefined);
+
+      index += 2;
+      const rows: string[][] = [];
+      while (index < lines.length && lines[index].trim() && lines[index].includes('|')) {
+        rows.push(splitTableRow(lines[index]));
+        index++;
+      }
+
+      blocks.push({ type: 'table', header, alignments, rows });
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM_PATTERN);
+    if (listItem) {
+      const listIndent = indentOf(line);
+      const ordered = /\d/.test(listItem[2]);
+      const start = ordered ? parseInt(listItem[2], 10) : 1;
+      const items: string[][] = [];
+      let looseList = false;
+      const isSiblingItem = (candidate: string): boolean => {
+        const match = candidate.match(LIST_ITEM_PATTERN);
+        return Boolean(match) && indentOf(candidate) === listIndent && /\d/.test(match![2]) === ordered;
+      };
+
+      while (index < lines.length && isSiblingItem(lines[index])) {
+        const itemMatch = lines[index].match(LIST_ITEM_PATTERN)!;
+
+        // Continuation lines must be indented past the marker
+        const contentIndent = listIndent + itemMatch[2].length + 1;
+        const itemLines = [itemMatch[3]];
+        index++;
+        while (index < lines.length) {
+          const next = lines[index];
+          if (!next.trim()) {
+            const following = lines.slice(index + 1).find(candidate => candidate.trim());
+            if (following === undefined || indentOf(following) < contentIndent) {
+              break;
+            }
+            looseList = true;
+            itemLines.push('');
+            index++;
+            continue;
+          }
+          if (indentOf(next) < contentIndent && (LIST_ITEM_PATTERN.test(next) || startsBlock(next))) {
+            break;
+          }
+          itemLines.push(indentOf(next) >= contentIndent ? next.replace(/^\s+/, match => match.slice(Math.min(match.length, contentIndent))) : next.trim());
+          index++;
+        }
+        items.push(itemLines);
+
+        // A blank line between items makes the whole list loose
+        if (index < lines.length && !lines[index].trim()) {
+          const following = lines.slice(index).find(candidate => candidate.trim());
+          if (!following || !isSiblingItem(following)) {
+            break;
+          }
+          looseList = true;
+          index = lines.indexOf(following, index);
+        }
+      }
+
+      blocks.push({ type: 'list', ordered, start, loose: looseList, items: items.map(parseBlocks) });
+      continue;
+    }
+
+    const paragraph: string[] = [line.trim()];
+    index++;
+    while (index < lines.length && lines[index].trim() && !startsBlock(lines[index]) && !isTableStart(lines, index)) {
+      paragraph.push(lines[index].trim());
+      index++;
+    }
+    blocks.push({ type: 'paragraph', lines: paragraph });
+  }
+
+  return blocks;
+};
+
+export const parseMarkdown = (markdown: string): MarkdownBlock[] =>
+  parseBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'));
+
+const renderBlocks = (blocks: MarkdownBlock[], options: MarkdownOptions, tight = false): string => {
+  const renderCodeBlock = options.renderCodeBlock ?? defaultCodeBlock;
+
+  return blocks.map(block => {
+    switch (block.type) {
+      case 'code':
+        return renderCodeBlock(block.code, block.language, block.meta);
+      case 'heading': {
+        const level = Math.min(6, block.level + (options.headingOffset ?? 0));
+        return `<h${level}>${renderInlineMarkdown(block.text, options)}</h${level}>`;
+      }
+      case 'rule':
+        return '<hr />';
+      case 'blockquote':
+        return `<blockquote>\n${renderBlocks(block.children, options)}\n</blockquote>`;
+      case 'table': {
+        const cell = (tag: 'th' | 'td', content: string, column: number): string =>
+          `<${tag}${block.alignments[column] ? ` style="text-align: ${block.alignments[column]}"` : ''}>${renderInlineMarkdown(content, options)}</${tag}>`;
+        return [
+          '<table>',
+          `<thead><tr>${block.header.map((content, column) => cell('th', content, column)).join('')}</tr></thead>`,
+          block.rows.length > 0
+            ? `<tbody>\n${block.rows.map(row => `<tr>${block.header.map((_heading, column) => cell('td', row[column] ?? '', column)).join('')}</tr>`).join('\n')}\n</tbody>`
+            : '',
+          '</table>',
+        ].filter(Boolean).join('\n');
+      }
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul';
+        return [
+          `<${tag}${block.ordered && block.start !== 1 ? ` start="${block.start}"` : ''}>`,
+          ...block.items.map(item => `<li>${renderBlocks(item, options, !block.loose)}</li>`),
+          `</${tag}>`,
+        ].join('\n');
+      }
+      case 'paragraph': {
+        // Single newlines are kept as line breaks; model output rarely hard-wraps prose
+        const text = block.lines.map(line => renderInlineMarkdown(line, options)).join('<br />\n');
+        return tight ? text : `<p>${text}</p>`;
+      }
+    }
+  }).join('\n');
+};
+
+export const renderMarkdown = (markdown: string, options: MarkdownOptions = {}): string =>
+  renderBlocks(parseMarkdown(markdown), options);
+
+// Ids of the `[text]{#id}` anchors in a Markdown document, so links to them can be resolved across files
+export const collectAnchorIds = (markdown: string): string[] =>
+  [...markdown.matchAll(ANCHOR_PATTERN)].map(match => match[2]);
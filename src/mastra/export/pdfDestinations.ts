@@ -0,0 +1,84 @@
+// Reads the page each named destination points at from a PDF written by Chrome.
+// Chrome records a named destination for every element id that a link on the
+// page targets, so a first render tells us where each chapter and section
+// landed and the table of contents can print real page numbers.
+
+const OBJECT_PATTERN = /(\d+)\s+0\s+obj\b/g;
+const REFERENCE_PATTERN = /(\d+)\s+0\s+R/g;
+// A destination entry, either `/name [page 0 R /XYZ ...]` in a Dests dictionary
+// or `(name) [page 0 R /XYZ ...]` in a name tree
+const DESTINATION_PATTERN = /(?:\/([^\s/[\]<>()]+)|\(([^()]*)\))\s*\[\s*(\d+)\s+0\s+R\s*\/(?:XYZ|Fit)/g;
+
+// Object bodies by object number; stream data is dropped so binary content can't confuse the parsing
+const readObjects = (pdf: string): Map<number, string> => {
+  const objects = new Map<number, string>();
+
+  for (const match of pdf.matchAll(OBJECT_PATTERN)) {
+    const start = match.index! + match[0].length;
+    const end = pdf.indexOf('endobj', start);
+    if (end === -1) {
+      continue;
+    }
+    const body = pdf.slice(start, end);
+    const streamStart = body.indexOf('stream');
+    objects.set(Number(match[1]), streamStart === -1 ? body : body.slice(0, streamStart));
+  }
+
+  return objects;
+};
+
+// Page object numbers in reading order, walking the page tree from the catalog
+const readPageOrder = (objects: Map<number, string>): number[] => {
+  const catalog = [...objects.values()].find(body => /\/Type\s*\/Catalog\b/.test(body));
+  const root = catalog?.match(/\/Pages\s+(\d+)\s+0\s+R/);
+  const pages: number[] = [];
+  if (!root) {
+    return pages;
+  }
+
+  const visit = (objectNumber: number, depth: number) => {
+    const body = objects.get(objectNumber);
+    if (!body || depth > 32) {
+      return;
+    }
+    const kids = body.match(/\/Kids\s*\[([^\]]*)\]/);
+    if (/\/Type\s*\/Pages\b/.test(body) && kids) {
+      for (const kid of kids[1].matchAll(REFERENCE_PATTERN)) {
+        visit(Number(kid[1]), depth + 1);
+      }
+    } else if (/\/Type\s*\/Page\b/.test(body)) {
+      pages.push(objectNumber);
+    }
+  };
+
+  visit(Number(root[1]), 0);
+  return pages;
+};
+
+// PDF names escape irregular characters as #xx
+const decodeName = (name: string): string =>
+  name.replace(/#([0-9a-fA-F]{2})/g, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+
+/**
+ * Maps each named destination in the PDF to its 1-based page number. Returns an
+ * empty map when the file doesn't have the structure we expect, so callers can
+ * fall back to leaving page numbers out.
+ */
+export const readDestinationPages = (pdf: Uint8Array): Map<string, number> => {
+  const text = Buffer.from(pdf).toString('latin1');
+  const objects = readObjects(text);
+  const pageNumbers = new Map(readPageOrder(objects).map((objectNumber, index) => [objectNumber, index + 1]));
+  const destinations = new Map<string, number>();
+
+  for (const body of objects.values()) {
+    for (const match of body.matchAll(DESTINATION_PATTERN)) {
+      const page = pageNumbers.get(Number(match[3]));
+      const name = match[1] !== undefined ? decodeName(match[1]) : match[2];
+      if (page !== undefined && !destinations.has(name)) {
+        destinations.set(name, page);
+      }
+    }
+  }
+
+  return destinations;
+};
@@ -12,6 +12,10 @@ import { inngest, inngestServe } from "./inngest";
 import { wikipediaResearchTool } from "./tools/wikipediaResearchTool";
 import { webScrapingTool } from "./tools/webScrapingTool";
 import { pdfGenerationTool } from "./tools/pdfGenerationTool";
+import { epubGenerationTool } from "./tools/epubGenerationTool";
+import { docxGenerationTool } from "./tools/docxGenerationTool";
+import { siteGenerationTool } from "./tools/siteGenerationTool";
+import { scormPackageTool } from "./tools/scormPackageTool";
 import { aiServiceTool } from "./tools/aiServiceTool";
 import { chunkedContentGenerationTool } from "./tools/chunkedContentGenerationTool";
 import { progressTrackingTool } from "./tools/progressTrackingTool";
@@ -20,6 +24,8 @@ import { writingAgent } from "./agents/writingAgent";
 import { reviewAgent } from "./agents/reviewAgent";
 import { improvedEducationalContentWorkflow } from "./workflows/improvedEducationalContentWorkflow";
 import { registerCronWorkflow } from "./inngest";
+import { workflowProgressRoutes } from "./routes/workflowProgressRoutes";
+import { workflowRunRoutes } from "./routes/workflowRunRoutes";
 
 class ProductionPinoLogger extends MastraLogger {
   protected logger: pino.Logger;
@@ -74,6 +80,10 @@ export const mastra = new Mastra({
         wikipediaResearchTool,
         webScrapingTool,
         pdfGenerationTool,
+        epubGenerationTool,
+        docxGenerationTool,
+        siteGenerationTool,
+        scormPackageTool,
         aiServiceTool,
         chunkedContentGenerationTool,
         progressTrackingTool,
@@ -140,6 +150,10 @@ export const mastra = new Mastra({
         // 3. Establishing a publish-subscribe system for real-time monitoring
         //    through the workflow:${workflowId}:${runId} channel
       },
+      // Progress of individual runs, read from workflow_progress/ and the run snapshot
+      ...workflowProgressRoutes,
+      // Run control, e.g. resuming a failed run from its saved sections
+      ...workflowRunRoutes,
     ],
   },
   logger:
@@ -173,5 +187,7 @@ if (Object.keys(mastra.getAgents()).length > 1) {
 // Register the improved educational content creation workflow to run daily at 9 AM
 registerCronWorkflow(
   `TZ=${process.env.SCHEDULE_CRON_TIMEZONE || 'America/Los_Angeles'} ${process.env.SCHEDULE_CRON_EXPRESSION || '0 9 * * *'}`,
-  improvedEducationalContentWorkflow
+  improvedEducationalContentWorkflow,
+  // Nobody is around to approve the outline of a scheduled run unless they opt in
+  { autoApproveOutline: process.env.CRON_AUTO_APPROVE_OUTLINE === 'true' },
 );
@@ -82,13 +82,17 @@ export function registerApiRoute<P extends string>(
   return originalRegisterApiRoute(...args);
 }
 
-export function registerCronWorkflow(cronExpression: string, workflow: any) {
+export function registerCronWorkflow(
+  cronExpression: string,
+  workflow: any,
+  inputData: Record<string, unknown> = {},
+) {
   const f = inngest.createFunction(
     { id: "cron-trigger" },
     [{ event: "replit/cron.trigger" }, { cron: cronExpression }],
     async ({ event, step }) => {
       const run = await workflow.createRunAsync();
-      const result = await run.start({ inputData: {} });
+      const result = await run.start({ inputData });
       return result;
     },
   );
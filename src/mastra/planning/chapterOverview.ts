@@ -0,0 +1,172 @@
+import type { IMastraLogger } from "@mastra/core/logger";
+import { z } from "zod";
+import { writingAgent } from "../agents/writingAgent";
+import { AI_MAX_CONCURRENT_REQUESTS, mapWithConcurrency } from "../scheduling/aiRequestScheduler";
+import type { BookReviewReport, ReviewedChapter } from "../review/contentReview";
+import { requestStructuredOutput } from "../scheduling/structuredRequest";
+
+// Typical reading speed for instructional text, slower than for fiction
+const READING_WORDS_PER_MINUTE = 200;
+const SUMMARY_MIN_WORDS = 60;
+const SUMMARY_MAX_WORDS = 200;
+
+// What the reader is told before and after each chapter
+export const chapterOverviewSchema = z.object({
+  learningObjectives: z.array(z.string()),
+  prerequisites: z.array(z.string()),
+  readingTimeMinutes: z.number(),
+  // Empty while no summary could be written; the next review asks for one
+  summary: z.string(),
+});
+
+export type ChapterOverview = z.infer<typeof chapterOverviewSchema>;
+
+const chapterSummaryOutputSchema = z.object({
+  summary: z.string().trim().min(1).describe("One paragraph recapping what the chapter taught"),
+});
+
+const countWords = (text: string): number =>
+  text.trim().split(/\s+/).filter(Boolean).length;
+
+const normalizeText = (text: string): string =>
+  text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const estimateReadingMinutes = (wordCount: number): number =>
+  Math.max(1, Math.round(wordCount / READING_WORDS_PER_MINUTE));
+
+/**
+ * Writes a chapter's summary from its content, checked for length. `problems`
+ * are the reviewer's notes on a previous summary, for a rewrite.
+ */
+export const writeChapterSummary = async ({
+  workflowId,
+  topic,
+  chapter,
+  learningObjectives,
+  problems = [],
+  logger,
+}: {
+  workflowId: string;
+  topic: string;
+  chapter: Pick<ReviewedChapter, 'number' | 'title' | 'content'>;
+  learningObjectives: string[];
+  problems?: string[];
+  logger?: IMastraLogger;
+}): Promise<string> => {
+  const output = await requestStructuredOutput({
+    agent: writingAgent,
+    prompt: `Write the end-of-chapter summary for Chapter ${chapter.number} of the educational guide on "${topic}".
+
+CHAPTER ${chapter.number}: ${chapter.title}
+Learning objectives:
+${learningObjectives.map(objective => `- ${objective}`).join('\n')}
+
+CHAPTER CONTENT:
+${chapter.content}
+${problems.length > 0 ? `
+A reviewer found these problems with the previous summary:
+${problems.map(problem => `- ${problem}`).join('\n')}
+` : ''}
+- Write one paragraph of ${SUMMARY_MIN_WORDS} to ${SUMMARY_MAX_WORDS} words in the book's friendly, plain style
+- Recap the main ideas in the order the chapter teaches them, tied to the learning objectives
+- Only summarize what the chapter actually says; don't introduce anything new`,
+    schema: chapterSummaryOutputSchema,
+    resourceId: "chapter-summary",
+    threadId: `summary-${workflowId}-chapter-${chapter.number}`,
+    validate: output => {
+      const wordCount = countWords(output.summary);
+      return wordCount < SUMMARY_MIN_WORDS || wordCount > SUMMARY_MAX_WORDS
+        ? [`The summary is ${wordCount} words; it must be ${SUMMARY_MIN_WORDS} to ${SUMMARY_MAX_WORDS} words`]
+        : [];
+    },
+    logger,
+  });
+
+  return output.summary;
+};
+
+/**
+ * Brings each chapter's overview in line with its content and latest review:
+ * reading times follow the current word counts, prerequisites the reviewer
+ * found missing are added, and summaries reviewed this round and found wanting
+ * (or missing) are rewritten. A failed rewrite keeps the previous summary.
+ */
+export const refreshChapterOverviews = async <C extends ReviewedChapter>({
+  workflowId,
+  topic,
+  chapters,
+  report,
+  logger,
+}: {
+  workflowId: string;
+  topic: string;
+  chapters: C[];
+  report: BookReviewReport;
+  logger?: IMastraLogger;
+}): Promise<C[]> =>
+  mapWithConcurrency(chapters, AI_MAX_CONCURRENT_REQUESTS, async chapter => {
+    const review = report.chapters.find(r => r.chapterNumber === chapter.number);
+    // Chapters that kept an earlier review were already refreshed against it
+    const check = review?.revisionRound === report.revisionRound ? review.overviewCheck : undefined;
+
+    const prerequisites = [
+      ...chapter.overview.prerequisites,
+      ...(check?.missingPrerequisites ?? []).filter(missing =>
+        !chapter.overview.prerequisites.some(prerequisite => normalizeText(prerequisite) === normalizeText(missing))),
+    ];
+
+    let summary = chapter.overview.summary;
+    const summaryProblems = check?.summaryProblems ?? [];
+    if (summaryProblems.length > 0 || (check && !summary)) {
+      logger?.info("📝 [ChapterOverview] Rewriting chapter summary", {
+        chapterNumber: chapter.number,
+        problems: summaryProblems.length,
+      });
+      try {
+        summary = await writeChapterSummary({
+          workflowId,
+          topic,
+          chapter,
+          learningObjectives: chapter.overview.learningObjectives,
+          problems: summaryProblems,
+          logger,
+        });
+      } catch (error) {
+        logger?.warn("⚠️ [ChapterOverview] Keeping previous chapter summary", {
+          chapterNumber: chapter.number,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return {
+      ...chapter,
+      overview: {
+        ...chapter.overview,
+        prerequisites,
+        readingTimeMinutes: estimateReadingMinutes(chapter.wordCount),
+        summary,
+      },
+    };
+  });
+
+const renderList = (items: string[]): string => items.map(item => `- ${item}`).join('\n');
+
+// Opens every chapter: how long it takes, what it teaches and what it assumes
+export const renderChapterOpener = (overview: ChapterOverview): string => [
+  `*Estimated reading time: ${overview.readingTimeMinutes} minute${overview.readingTimeMinutes === 1 ? '' : 's'}*`,
+  ...(overview.learningObjectives.length > 0
+    ? [`**In this chapter, you will learn to:**\n\n${renderList(overview.learningObjectives)}`]
+    : []),
+  overview.prerequisites.length > 0
+    ? `**Before you start, you should be familiar with:**\n\n${renderList(overview.prerequisites)}`
+    : '**Before you start:** no prior knowledge is needed.',
+].join('\n\n');
+
+// Closes every chapter: the summary, then the objectives as a checklist
+export const renderChapterCloser = (overview: ChapterOverview): string => [
+  ...(overview.summary ? [overview.summary] : []),
+  ...(overview.learningObjectives.length > 0
+    ? [`**Check your progress.** You should now be able to:\n\n${renderList(overview.learningObjectives)}`]
+    : []),
+].join('\n\n');
@@ -0,0 +1,163 @@
+import type { IMastraLogger } from "@mastra/core/logger";
+import { z } from "zod";
+import { ideaGenerationAgent } from "../agents/ideaGenerationAgent";
+import { requestStructuredOutput, StructuredOutputError } from "../scheduling/structuredRequest";
+import type { PlannedChapter } from "../storage/contentCheckpoints";
+import { allocateWordBudgets } from "./wordBudget";
+
+export const outlineSectionSchema = z.object({
+  title: z.string().trim().min(1).describe("Descriptive section title"),
+  targetWordCount: z.number().int().min(100).max(5000).describe("Word budget for this section"),
+});
+
+export const outlineChapterSchema = z.object({
+  title: z.string().trim().min(1).describe("Descriptive chapter title, without the chapter number"),
+  learningObjectives: z.array(z.string().trim().min(1)).min(1).describe("What the reader can do after the chapter"),
+  prerequisites: z.array(z.string().trim().min(1)).describe("Concepts the reader needs before starting the chapter"),
+  sections: z.array(outlineSectionSchema).min(2).max(10),
+});
+
+export const bookOutlineSchema = z.object({
+  chapters: z.array(outlineChapterSchema).min(3).max(20),
+});
+
+export type BookOutline = z.infer<typeof bookOutlineSchema>;
+
+export class OutlineGenerationError extends Error {
+  constructor(message: string, public readonly issues: string[]) {
+    super(message);
+    this.name = 'OutlineGenerationError';
+  }
+}
+
+const buildOutlinePrompt = (topic: string, targetAudience: string, targetWordCount: number): string => {
+  const totalWords = targetWordCount ? targetWordCount.toLocaleString() : '60,000';
+
+  return `Create a comprehensive educational outline for "${topic}" for ${targetAudience}.
+
+This will be a detailed learning guide of ${totalWords} words total.
+
+Structure this as 8-12 chapters, each with 4-6 sections. Each section should be approximately 600-800 words, and the section word budgets across the whole book should add up to roughly ${totalWords} words.
+
+For every chapter provide:
+- a clear, descriptive title (without "Chapter N")
+- 2-4 learning objectives phrased as what the reader will be able to do
+- prerequisites: concepts from earlier chapters or prior knowledge the chapter relies on (empty for none)
+- its sections, each with a descriptive title and a word budget; leave out summary or recap sections, since every chapter gets its summary separately
+
+Build from basic concepts to advanced applications.`;
+};
+
+/**
+ * Generates the book outline as structured output and validates it against
+ * `bookOutlineSchema`, feeding validation errors back to the agent until it
+ * produces a valid outline. Throws `OutlineGenerationError` once attempts run out.
+ */
+export const generateStructuredOutline = async ({
+  topic,
+  targetAudience,
+  targetWordCount,
+  workflowId,
+  logger,
+}: {
+  topic: string;
+  targetAudience: string;
+  targetWordCount: number;
+  workflowId: string;
+  logger?: IMastraLogger;
+}): Promise<BookOutline> => {
+  logger?.info("🗂️ [OutlineGeneration] Requesting structured outline", { workflowId });
+
+  try {
+    const outline = await requestStructuredOutput({
+      agent: ideaGenerationAgent,
+      prompt: buildOutlinePrompt(topic, targetAudience, targetWordCount),
+      schema: bookOutlineSchema,
+      resourceId: "outline-generation",
+      threadId: workflowId,
+      maxSteps: 10,
+      logger,
+    });
+
+    logger?.info("✅ [OutlineGeneration] Outline validated", {
+      workflowId,
+      chapterCount: outline.chapters.length,
+    });
+    return outline;
+  } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      throw new OutlineGenerationError(
+        `Outline generation for "${topic}" did not produce a valid outline: ${error.problems.join('; ')}`,
+        error.problems,
+      );
+    }
+    throw error;
+  }
+};
+
+export const toPlannedChapters = (outline: BookOutline): PlannedChapter[] =>
+  outline.chapters.map((chapter, index) => ({
+    number: index + 1,
+    title: chapter.title,
+    sections: chapter.sections.map(section => section.title),
+    sectionWordBudgets: chapter.sections.map(section => section.targetWordCount),
+    targetWordCount: chapter.sections.reduce((sum, section) => sum + section.targetWordCount, 0),
+    learningObjectives: chapter.learningObjectives,
+    prerequisites: chapter.prerequisites,
+  }));
+
+// Plain-text outline handed to the writing agent as context for every section
+export const renderOutlineText = (chapters: PlannedChapter[]): string =>
+  chapters.map(chapter => [
+    `Chapter ${chapter.number}: ${chapter.title}`,
+    `  Learning objectives: ${chapter.learningObjectives.join('; ')}`,
+    ...(chapter.prerequisites.length > 0 ? [`  Prerequisites: ${chapter.prerequisites.join('; ')}`] : []),
+    ...chapter.sections.map((title, index) =>
+      `  - Section ${chapter.number}.${index + 1}: ${title} (~${chapter.sectionWordBudgets[index]} words)`),
+  ].join('\n')).join('\n\n');
+
+// An editor's version of the outline, submitted when approving it. Order is the
+// reading order; chapters are renumbered from it.
+export const outlineEditSchema = z.object({
+  chapters: z.array(z.object({
+    title: z.string().trim().min(1),
+    sections: z.array(z.string().trim().min(1)).min(1),
+    learningObjectives: z.array(z.string().trim().min(1)).optional(),
+    prerequisites: z.array(z.string().trim().min(1)).optional(),
+  })).min(1),
+  approvedBy: z.string().trim().min(1).optional(),
+});
+
+export type OutlineEdit = z.infer<typeof outlineEditSchema>;
+
+/**
+ * Applies an edited outline to the planned chapters. Sections and chapters keep
+ * their planned budgets as relative weights (matched by title, wherever they
+ * moved to), and the book's total word target is redistributed across the result.
+ */
+export const applyOutlineEdits = (planned: PlannedChapter[], edit: OutlineEdit): PlannedChapter[] => {
+  const totalWords = planned.reduce((sum, chapter) => sum + chapter.targetWordCount, 0);
+  const plannedBudgets = planned.flatMap(chapter => chapter.sections.map((title, index) => ({
+    title: title.toLowerCase(),
+    budget: chapter.sectionWordBudgets[index],
+  })));
+  const averageBudget = plannedBudgets.length > 0
+    ? plannedBudgets.reduce((sum, section) => sum + section.budget, 0) / plannedBudgets.length
+    : 700;
+
+  const edited: PlannedChapter[] = edit.chapters.map((chapter, index) => {
+    const original = planned.find(c => c.title.toLowerCase() === chapter.title.toLowerCase());
+    return {
+      number: index + 1,
+      title: chapter.title,
+      sections: chapter.sections,
+      sectionWordBudgets: chapter.sections.map(title =>
+        plannedBudgets.find(section => section.title === title.toLowerCase())?.budget ?? averageBudget),
+      targetWordCount: 0,
+      learningObjectives: chapter.learningObjectives ?? original?.learningObjectives ?? [],
+      prerequisites: chapter.prerequisites ?? original?.prerequisites ?? [],
+    };
+  });
+
+  return allocateWordBudgets(edited, totalWords);
+};
@@ -0,0 +1,199 @@
+import { z } from "zod";
+import type { PlannedChapter } from "../storage/contentCheckpoints";
+
+// Relative weights: framing material (introductions, summaries) is kept shorter
+// than the core chapters and sections that carry the teaching.
+const FRAMING_CHAPTER_WEIGHT = 0.6;
+const FRAMING_SECTION_WEIGHT = 0.6;
+const CORE_WEIGHT = 1;
+
+// Rebalancing never moves a section further than this from its planned budget
+const MIN_BUDGET_RATIO = 0.5;
+const MAX_BUDGET_RATIO = 1.5;
+const MIN_SECTION_WORDS = 150;
+
+const INTRO_PATTERN = /\b(introduction|introducing|overview|getting started|welcome|preface)\b/i;
+const SUMMARY_PATTERN = /\b(summary|conclusion|wrap(?:ping)?[- ]up|recap|review|next steps|key takeaways|final thoughts)\b/i;
+
+const isFramingTitle = (title: string): boolean =>
+  INTRO_PATTERN.test(title) || SUMMARY_PATTERN.test(title);
+
+export const wordBudgetReportSchema = z.object({
+  targetWordCount: z.number(),
+  actualWordCount: z.number(),
+  variance: z.number(),
+  variancePercent: z.number(),
+  chapters: z.array(z.object({
+    number: z.number(),
+    title: z.string(),
+    plannedWords: z.number(),
+    actualWords: z.number(),
+    variance: z.number(),
+  })),
+});
+
+export type WordBudgetReport = z.infer<typeof wordBudgetReportSchema>;
+
+// Splits `total` in proportion to `weights`, handing rounding leftovers to the
+// largest remainders so the parts always add up to `total` exactly.
+const distribute = (total: number, weights: number[]): number[] => {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weightSum <= 0) {
+    return weights.map(() => 0);
+  }
+
+  const exact = weights.map(weight => (total * weight) / weightSum);
+  const parts = exact.map(Math.floor);
+  let leftover = total - parts.reduce((sum, part) => sum + part, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) {
+      break;
+    }
+    parts[index]++;
+    leftover--;
+  }
+
+  return parts;
+};
+
+const chapterWeight = (chapter: PlannedChapter): number =>
+  isFramingTitle(chapter.title) ? FRAMING_CHAPTER_WEIGHT : CORE_WEIGHT;
+
+const sectionWeight = (title: string, outlineBudget: number | undefined): number =>
+  // The outline's own budget expresses relative depth; framing sections are scaled down from it
+  (outlineBudget && outlineBudget > 0 ? outlineBudget : 1) * (isFramingTitle(title) ? FRAMING_SECTION_WEIGHT : CORE_WEIGHT);
+
+/**
+ * Distributes `targetWordCount` across the chapters and sections actually in the
+ * outline, returning chapters whose `sectionWordBudgets` and `targetWordCount`
+ * add up to the target.
+ */
+export const allocateWordBudgets = (chapters: PlannedChapter[], targetWordCount: number): PlannedChapter[] => {
+  // Chapters with more sections need proportionally more words
+  const chapterBudgets = distribute(
+    targetWordCount,
+    chapters.map(chapter => chapterWeight(chapter) * chapter.sections.length),
+  );
+
+  return chapters.map((chapter, index) => {
+    const sectionWordBudgets = distribute(
+      chapterBudgets[index],
+      chapter.sections.map((title, sectionIndex) => sectionWeight(title, chapter.sectionWordBudgets[sectionIndex])),
+    );
+
+    return {
+      ...chapter,
+      sectionWordBudgets,
+      targetWordCount: chapterBudgets[index],
+    };
+  });
+};
+
+const sectionKey = (chapterNumber: number, sectionIndex: number): string => `${chapterNumber}.${sectionIndex}`;
+
+export interface WordBudgetPlanner {
+  // Budget for a section about to be written, rebalanced against words written so far
+  budgetFor: (chapterNumber: number, sectionIndex: number) => number;
+  recordSection: (chapterNumber: number, sectionIndex: number, wordCount: number) => void;
+  report: () => WordBudgetReport;
+}
+
+/**
+ * Tracks actual section lengths against the plan. Each new section's budget is
+ * its share of whatever the target has left, so overshooting early sections
+ * shortens later ones (and vice versa) within a bounded range.
+ */
+export const createWordBudgetPlanner = (chapters: PlannedChapter[], targetWordCount: number): WordBudgetPlanner => {
+  const planned = new Map<string, number>();
+  const actual = new Map<string, number>();
+
+  for (const chapter of chapters) {
+    chapter.sections.forEach((_title, sectionIndex) => {
+      planned.set(sectionKey(chapter.number, sectionIndex), chapter.sectionWordBudgets[sectionIndex] ?? 0);
+    });
+  }
+
+  const budgetFor = (chapterNumber: number, sectionIndex: number): number => {
+    const plannedWords = planned.get(sectionKey(chapterNumber, sectionIndex)) ?? 0;
+
+    let writtenWords = 0;
+    let unwrittenPlan = 0;
+    for (const [key, words] of planned) {
+      const written = actual.get(key);
+      if (written === undefined) {
+        unwrittenPlan += words;
+      } else {
+        writtenWords += written;
+      }
+    }
+
+    if (unwrittenPlan <= 0) {
+      return plannedWords;
+    }
+
+    const remaining = Math.max(0, targetWordCount - writtenWords);
+    const rebalanced = Math.round((remaining * plannedWords) / unwrittenPlan);
+    const bounded = Math.min(
+      Math.round(plannedWords * MAX_BUDGET_RATIO),
+      Math.max(Math.round(plannedWords * MIN_BUDGET_RATIO), rebalanced),
+    );
+    return Math.max(MIN_SECTION_WORDS, bounded);
+  };
+
+  const recordSection = (chapterNumber: number, sectionIndex: number, wordCount: number): void => {
+    actual.set(sectionKey(chapterNumber, sectionIndex), wordCount);
+  };
+
+  const report = (): WordBudgetReport => {
+    const chapterVariances = chapters.map(chapter => {
+      const actualWords = chapter.sections.reduce(
+        (sum, _title, sectionIndex) => sum + (actual.get(sectionKey(chapter.number, sectionIndex)) ?? 0),
+        0,
+      );
+      return {
+        number: chapter.number,
+        title: chapter.title,
+        plannedWords: chapter.targetWordCount,
+        actualWords,
+        variance: actualWords - chapter.targetWordCount,
+      };
+    });
+    const actualWordCount = chapterVariances.reduce((sum, chapter) => sum + chapter.actualWords, 0);
+    const variance = actualWordCount - targetWordCount;
+
+    return {
+      targetWordCount,
+      actualWordCount,
+      variance,
+      variancePercent: targetWordCount > 0 ? Math.round((variance / targetWordCount) * 1000) / 10 : 0,
+      chapters: chapterVariances,
+    };
+  };
+
+  return { budgetFor, recordSection, report };
+};
+
+// Recomputes actuals after content changed outside generation (e.g. review revisions)
+export const refreshWordBudgetReport = (
+  report: WordBudgetReport,
+  chapters: Array<{ number: number; wordCount: number }>,
+): WordBudgetReport => {
+  const chapterVariances = report.chapters.map(chapter => {
+    const actualWords = chapters.find(c => c.number === chapter.number)?.wordCount ?? chapter.actualWords;
+    return { ...chapter, actualWords, variance: actualWords - chapter.plannedWords };
+  });
+  const actualWordCount = chapterVariances.reduce((sum, chapter) => sum + chapter.actualWords, 0);
+  const variance = actualWordCount - report.targetWordCount;
+
+  return {
+    ...report,
+    actualWordCount,
+    variance,
+    variancePercent: report.targetWordCount > 0 ? Math.round((variance / report.targetWordCount) * 1000) / 10 : 0,
+    chapters: chapterVariances,
+  };
+};
@@ -0,0 +1,480 @@
+import type { IMastraLogger } from "@mastra/core/logger";
+import { z } from "zod";
+import { reviewAgent } from "../agents/reviewAgent";
+import { writingAgent } from "../agents/writingAgent";
+import {
+  AI_MAX_CONCURRENT_REQUESTS,
+  aiRequestLimiter,
+  CONTENT_SECTION_CONCURRENCY,
+  isRateLimitError,
+  mapWithConcurrency,
+  RATE_LIMIT_BACKOFF_MS,
+  reportRateLimit,
+} from "../scheduling/aiRequestScheduler";
+import { requestStructuredOutput } from "../scheduling/structuredRequest";
+import type { ChapterOverview } from "../planning/chapterOverview";
+
+const parseNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = value ? parseFloat(value) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// Score a review must reach for the book to be approved without further revision
+export const REVIEW_SCORE_THRESHOLD = parseNumber(process.env.REVIEW_SCORE_THRESHOLD, 7);
+// No single chapter may score below this, however well the rest of the book does
+export const REVIEW_MIN_CHAPTER_SCORE = parseNumber(process.env.REVIEW_MIN_CHAPTER_SCORE, 6);
+// Revise-and-rereview rounds attempted before the review result is final
+export const REVIEW_MAX_REVISION_ROUNDS = Math.floor(parseNumber(process.env.REVIEW_MAX_REVISION_ROUNDS, 2));
+
+export const REVIEW_CRITERIA = [
+  'accuracy',
+  'clarity',
+  'progression',
+  'completeness',
+  'engagement',
+  'consistency',
+] as const;
+
+const criterionScore = z.number().min(1).max(10);
+
+export const rubricScoresSchema = z.object({
+  accuracy: criterionScore,
+  clarity: criterionScore,
+  progression: criterionScore,
+  completeness: criterionScore,
+  engagement: criterionScore,
+  consistency: criterionScore,
+});
+
+export type RubricScores = z.infer<typeof rubricScoresSchema>;
+
+export const ISSUE_SEVERITIES = ['critical', 'major', 'minor'] as const;
+
+export const sectionIssueSchema = z.object({
+  chapterNumber: z.number().int(),
+  sectionTitle: z.string().min(1),
+  severity: z.enum(ISSUE_SEVERITIES),
+  problem: z.string().min(1),
+  suggestion: z.string().min(1),
+  excerpt: z.string().optional(),
+});
+
+export type SectionIssue = z.infer<typeof sectionIssueSchema>;
+
+const approvalDecisionSchema = z.object({
+  decision: z.enum(['approve', 'revise']),
+  rationale: z.string().min(1),
+});
+
+// How well a chapter's opener and closer match what the chapter actually teaches
+export const overviewCheckSchema = z.object({
+  unmetObjectives: z.array(z.string())
+    .describe("Learning objectives, quoted exactly, that the chapter content does not achieve"),
+  missingPrerequisites: z.array(z.string().min(1))
+    .describe("Concepts the chapter assumes the reader knows that the prerequisites don't list"),
+  summaryProblems: z.array(z.string().min(1))
+    .describe("Ways the summary misstates, omits or goes beyond the chapter content"),
+});
+
+export type OverviewCheck = z.infer<typeof overviewCheckSchema>;
+
+// What the review agent returns for one chapter
+export const chapterReviewOutputSchema = z.object({
+  scores: rubricScoresSchema.describe("Score from 1 to 10 for each rubric criterion"),
+  summary: z.string().min(1).describe("Two or three sentence assessment of the chapter"),
+  issues: z.array(z.object({
+    sectionTitle: z.string().min(1).describe("Exact title of the section the issue is in"),
+    severity: z.enum(ISSUE_SEVERITIES).describe("critical: wrong or misleading; major: confusing or incomplete; minor: polish"),
+    problem: z.string().min(1),
+    suggestion: z.string().min(1),
+    excerpt: z.string().optional().describe("Short quote of the passage the issue refers to"),
+  })),
+  overviewCheck: overviewCheckSchema.describe("Check of the chapter's learning objectives, prerequisites and summary against its content"),
+  approval: approvalDecisionSchema,
+});
+
+export const chapterReviewSchema = z.object({
+  chapterNumber: z.number(),
+  title: z.string(),
+  scores: rubricScoresSchema,
+  score: z.number(),
+  summary: z.string(),
+  issues: z.array(sectionIssueSchema),
+  overviewCheck: overviewCheckSchema,
+  approval: approvalDecisionSchema,
+  // Round in which this chapter was last reviewed
+  revisionRound: z.number(),
+});
+
+export type ChapterReview = z.infer<typeof chapterReviewSchema>;
+
+export const bookReviewReportSchema = z.object({
+  revisionRound: z.number(),
+  score: z.number(),
+  criteria: rubricScoresSchema,
+  approvedForPublication: z.boolean(),
+  approvalRationale: z.string(),
+  chapters: z.array(chapterReviewSchema),
+  reviewedAt: z.string(),
+});
+
+export type BookReviewReport = z.infer<typeof bookReviewReportSchema>;
+
+export interface ReviewedSection {
+  title: string;
+  content: string;
+  wordCount: number;
+  targetWordCount?: number;
+  lengthDeviation?: number;
+}
+
+export interface ReviewedChapter {
+  number: number;
+  title: string;
+  content: string;
+  wordCount: number;
+  sections: ReviewedSection[];
+  overview: ChapterOverview;
+}
+
+export interface RevisedSectionRef {
+  chapterNumber: number;
+  sectionIndex: number;
+  title: string;
+}
+
+const countWords = (text: string): number =>
+  text.trim().split(/\s+/).filter(Boolean).length;
+
+const roundScore = (score: number): number => Math.round(score * 10) / 10;
+
+const average = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+const normalizeTitle = (title: string): string =>
+  title.trim().toLowerCase().replace(/^section\s+[\d.]+[:.]?\s*/, '');
+
+const normalizeText = (text: string): string =>
+  text.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[.;]$/, '');
+
+const findSectionIndex = (chapter: ReviewedChapter, sectionTitle: string): number =>
+  chapter.sections.findIndex(section => normalizeTitle(section.title) === normalizeTitle(sectionTitle));
+
+export const buildChapterContent = (sections: ReviewedSection[]): string =>
+  sections.map(section => `## ${section.title}\n\n${section.content}`).join('\n\n');
+
+const reviewChapter = async ({
+  workflowId,
+  topic,
+  chapter,
+  bookSummary,
+  revisionRound,
+  logger,
+}: {
+  workflowId: string;
+  topic: string;
+  chapter: ReviewedChapter;
+  bookSummary: string;
+  revisionRound: number;
+  logger?: IMastraLogger;
+}): Promise<ChapterReview> => {
+  const review = await requestStructuredOutput({
+    agent: reviewAgent,
+    prompt: `Review Chapter ${chapter.number} of the educational guide on "${topic}".
+
+BOOK OUTLINE (for progression and consistency):
+${bookSummary}
+
+CHAPTER ${chapter.number}: ${chapter.title} (${chapter.wordCount} words)
+Sections: ${chapter.sections.map(section => section.title).join('; ')}
+
+CHAPTER OVERVIEW (shown to the reader before and after the chapter):
+Learning objectives:
+${chapter.overview.learningObjectives.map(objective => `- ${objective}`).join('\n') || '(none)'}
+Prerequisites:
+${chapter.overview.prerequisites.map(prerequisite => `- ${prerequisite}`).join('\n') || '(none)'}
+Summary: ${chapter.overview.summary || '(missing)'}
+
+CHAPTER CONTENT:
+${chapter.content}
+
+Score the chapter from 1 to 10 on each criterion:
+1. ACCURACY: Are concepts correct and well-explained?
+2. CLARITY: Is content clear and appropriate for the target audience?
+3. PROGRESSION: Does it build logically on earlier chapters and within itself?
+4. COMPLETENESS: Are there gaps or missing topics?
+5. ENGAGEMENT: Is content engaging and accessible?
+6. CONSISTENCY: Are tone, style and terminology consistent with the rest of the book?
+
+List every issue that needs rework with the exact section title it is in, its severity and a concrete fix; use an empty list if none.
+Check the overview against the content: quote every learning objective the chapter doesn't achieve (and list an issue in the section that should achieve it), name concepts the chapter assumes that the prerequisites leave out, and describe anything the summary gets wrong, leaves out or adds.
+Decide whether the chapter should be approved as is or revised, and explain why.`,
+    schema: chapterReviewOutputSchema,
+    resourceId: "content-review",
+    threadId: `review-${workflowId}-chapter-${chapter.number}`,
+    logger,
+  });
+
+  const issues = review.issues
+    .map(issue => ({ ...issue, chapterNumber: chapter.number }))
+    .filter(issue => {
+      const known = findSectionIndex(chapter, issue.sectionTitle) !== -1;
+      if (!known) {
+        logger?.warn("⚠️ [ContentReview] Ignoring issue for unknown section", {
+          chapterNumber: chapter.number,
+          sectionTitle: issue.sectionTitle,
+        });
+      }
+      return known;
+    });
+
+  const unmetObjectives = review.overviewCheck.unmetObjectives
+    .map(quoted => chapter.overview.learningObjectives.find(objective => normalizeText(objective) === normalizeText(quoted)))
+    .filter((objective): objective is string => objective !== undefined);
+  if (unmetObjectives.length < review.overviewCheck.unmetObjectives.length) {
+    logger?.warn("⚠️ [ContentReview] Ignoring unmet objectives the chapter doesn't have", {
+      chapterNumber: chapter.number,
+      quoted: review.overviewCheck.unmetObjectives,
+    });
+  }
+
+  return {
+    chapterNumber: chapter.number,
+    title: chapter.title,
+    scores: review.scores,
+    score: roundScore(average(REVIEW_CRITERIA.map(criterion => review.scores[criterion]))),
+    summary: review.summary,
+    issues,
+    overviewCheck: { ...review.overviewCheck, unmetObjectives: [...new Set(unmetObjectives)] },
+    approval: review.approval,
+    revisionRound,
+  };
+};
+
+export const aggregateChapterReviews = (chapterReviews: ChapterReview[], revisionRound: number): BookReviewReport => {
+  const criteria = Object.fromEntries(
+    REVIEW_CRITERIA.map(criterion => [criterion, roundScore(average(chapterReviews.map(review => review.scores[criterion])))]),
+  ) as RubricScores;
+  const score = roundScore(average(chapterReviews.map(review => review.score)));
+
+  // Every rule that blocks approval is recorded, so the decision can be audited later
+  const blockers: string[] = [];
+  if (score < REVIEW_SCORE_THRESHOLD) {
+    blockers.push(`book score ${score} is below the threshold of ${REVIEW_SCORE_THRESHOLD}`);
+  }
+  for (const review of chapterReviews) {
+    if (review.score < REVIEW_MIN_CHAPTER_SCORE) {
+      blockers.push(`chapter ${review.chapterNumber} scored ${review.score}, below the minimum of ${REVIEW_MIN_CHAPTER_SCORE}`);
+    }
+    const criticalIssues = review.issues.filter(issue => issue.severity === 'critical').length;
+    if (criticalIssues > 0) {
+      blockers.push(`chapter ${review.chapterNumber} has ${criticalIssues} critical issue(s)`);
+    }
+    if (review.overviewCheck.unmetObjectives.length > 0) {
+      blockers.push(`chapter ${review.chapterNumber} does not meet ${review.overviewCheck.unmetObjectives.length} learning objective(s)`);
+    }
+    if (review.approval.decision === 'revise') {
+      blockers.push(`chapter ${review.chapterNumber} reviewer asked for revision: ${review.approval.rationale}`);
+    }
+  }
+
+  return {
+    revisionRound,
+    score,
+    criteria,
+    approvedForPublication: blockers.length === 0,
+    approvalRationale: blockers.length === 0
+      ? `Approved: book score ${score} meets the threshold of ${REVIEW_SCORE_THRESHOLD} and every chapter was approved with no critical issues`
+      : `Not approved: ${blockers.join('; ')}`,
+    chapters: chapterReviews,
+    reviewedAt: new Date().toISOString(),
+  };
+};
+
+// Human-readable form of the report, used as the run's review summary
+export const renderReviewReport = (report: BookReviewReport): string => [
+  `Overall quality score: ${report.score}/10 (${report.approvedForPublication ? 'approved' : 'needs revision'}, revision round ${report.revisionRound})`,
+  report.approvalRationale,
+  '',
+  ...REVIEW_CRITERIA.map(criterion => `- ${criterion}: ${report.criteria[criterion]}`),
+  '',
+  ...report.chapters.map(review =>
+    `Chapter ${review.chapterNumber}: ${review.title} - ${review.score}/10 (${review.approval.decision})\n${review.summary}` +
+    (review.issues.length > 0 ? `\n${review.issues.map(issue => `  * [${issue.severity}] ${issue.sectionTitle}: ${issue.problem}`).join('\n')}` : '') +
+    (review.overviewCheck.unmetObjectives.length > 0 ? `\n${review.overviewCheck.unmetObjectives.map(objective => `  * [objective not met] ${objective}`).join('\n')}` : '') +
+    (review.overviewCheck.summaryProblems.length > 0 ? `\n${review.overviewCheck.summaryProblems.map(problem => `  * [summary] ${problem}`).join('\n')}` : '')
+  ),
+].join('\n');
+
+/**
+ * Reviews every chapter in parallel against the rubric and aggregates the
+ * results into a book-level report. On re-reviews only chapters with revised
+ * sections are reviewed again; the rest keep their previous review.
+ */
+export const reviewBook = async ({
+  workflowId,
+  topic,
+  chapters,
+  revisionRound,
+  previousReport,
+  revisedSections = [],
+  logger,
+}: {
+  workflowId: string;
+  topic: string;
+  chapters: ReviewedChapter[];
+  revisionRound: number;
+  previousReport?: BookReviewReport;
+  revisedSections?: RevisedSectionRef[];
+  logger?: IMastraLogger;
+}): Promise<BookReviewReport> => {
+  const bookSummary = chapters.map(chapter =>
+    `Chapter ${chapter.number}: ${chapter.title} (${chapter.wordCount} words, ${chapter.sections.length} sections)`
+  ).join('\n');
+
+  const chapterReviews = await mapWithConcurrency(chapters, AI_MAX_CONCURRENT_REQUESTS, async chapter => {
+    const previous = previousReport?.chapters.find(review => review.chapterNumber === chapter.number);
+    if (previous && !revisedSections.some(ref => ref.chapterNumber === chapter.number)) {
+      return previous;
+    }
+
+    logger?.info("🔍 [ContentReview] Reviewing chapter", {
+      chapterNumber: chapter.number,
+      revisionRound,
+    });
+    return reviewChapter({ workflowId, topic, chapter, bookSummary, revisionRound, logger });
+  });
+
+  return aggregateChapterReviews(chapterReviews, revisionRound);
+};
+
+export const collectSectionIssues = (report: BookReviewReport): SectionIssue[] =>
+  report.chapters.flatMap(review => review.issues);
+
+/**
+ * Sends each flagged section back to the writing agent with the reviewer's notes.
+ * A section whose revision fails keeps its current content; the next review will
+ * flag it again if it still needs work.
+ */
+export const reviseFlaggedSections = async ({
+  workflowId,
+  topic,
+  chapters,
+  issues,
+  revisionRound,
+  logger,
+}: {
+  workflowId: string;
+  topic: string;
+  chapters: ReviewedChapter[];
+  issues: SectionIssue[];
+  revisionRound: number;
+  logger?: IMastraLogger;
+}): Promise<{ chapters: ReviewedChapter[]; revisedSections: RevisedSectionRef[] }> => {
+  // Group notes so each flagged section is rewritten once
+  const flagged = new Map<string, { chapterNumber: number; sectionIndex: number; notes: SectionIssue[] }>();
+  for (const issue of issues) {
+    const chapter = chapters.find(c => c.number === issue.chapterNumber);
+    const sectionIndex = chapter ? findSectionIndex(chapter, issue.sectionTitle) : -1;
+    if (sectionIndex === -1) {
+      continue;
+    }
+    const key = `${issue.chapterNumber}.${sectionIndex}`;
+    const entry = flagged.get(key) ?? { chapterNumber: issue.chapterNumber, sectionIndex, notes: [] };
+    entry.notes.push(issue);
+    flagged.set(key, entry);
+  }
+
+  const revisions = await mapWithConcurrency([...flagged.values()], CONTENT_SECTION_CONCURRENCY, async ({ chapterNumber, sectionIndex, notes }) => {
+    const chapter = chapters.find(c => c.number === chapterNumber)!;
+    const section = chapter.sections[sectionIndex];
+
+    logger?.info("🛠️ [ContentReview] Revising section", {
+      chapterNumber,
+      sectionTitle: section.title,
+      issueCount: notes.length,
+      revisionRound,
+    });
+
+    const prompt = `You are revising a section of a comprehensive educational guide on "${topic}".
+
+CHAPTER: ${chapterNumber}. ${chapter.title}
+SECTION: ${section.title}
+
+REVIEWER NOTES:
+${notes.map(note => `- [${note.severity}] ${note.problem}${note.excerpt ? ` (in: "${note.excerpt}")` : ''} Suggested fix: ${note.suggestion}`).join('\n')}
+
+CURRENT SECTION (${section.wordCount} words):
+---
+${section.content}
+---
+
+Revise the section so that it addresses every reviewer note. Keep it at about ${section.wordCount} words and keep the friendly "Idiot's Guide" style and formatting. Return the complete revised section only, with no commentary.`;
+
+    try {
+      const { text: revised } = await aiRequestLimiter(() => writingAgent.generate([
+        { role: "user", content: prompt },
+      ], {
+        resourceId: "content-revision",
+        threadId: `revision-${workflowId}-${chapterNumber}-${sectionIndex}`,
+        maxSteps: 5,
+      }));
+
+      if (!revised.trim()) {
+        return null;
+      }
+      return { chapterNumber, sectionIndex, content: revised };
+    } catch (error) {
+      if (isRateLimitError(error)) {
+        reportRateLimit(RATE_LIMIT_BACKOFF_MS);
+      }
+      logger?.warn("⚠️ [ContentReview] Section revision failed, keeping current content", {
+        chapterNumber,
+        sectionTitle: section.title,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  });
+
+  const applied = revisions.filter((revision): revision is NonNullable<typeof revision> => revision !== null);
+
+  const revisedChapters = chapters.map(chapter => {
+    const chapterRevisions = applied.filter(revision => revision.chapterNumber === chapter.number);
+    if (chapterRevisions.length === 0) {
+      return chapter;
+    }
+
+    const sections = chapter.sections.map((section, sectionIndex) => {
+      const revision = chapterRevisions.find(r => r.sectionIndex === sectionIndex);
+      if (!revision) {
+        return section;
+      }
+      const wordCount = countWords(revision.content);
+      return {
+        ...section,
+        content: revision.content,
+        wordCount,
+        lengthDeviation: section.targetWordCount
+          ? Math.round(((wordCount - section.targetWordCount) / section.targetWordCount) * 1000) / 10
+          : section.lengthDeviation,
+      };
+    });
+
+    return {
+      ...chapter,
+      sections,
+      content: buildChapterContent(sections),
+      wordCount: sections.reduce((sum, section) => sum + section.wordCount, 0),
+    };
+  });
+
+  return {
+    chapters: revisedChapters,
+    revisedSections: applied.map(({ chapterNumber, sectionIndex }) => ({
+      chapterNumber,
+      sectionIndex,
+      title: chapters.find(c => c.number === chapterNumber)!.sections[sectionIndex].title,
+    })),
+  };
+};
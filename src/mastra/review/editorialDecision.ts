@@ -0,0 +1,77 @@
+import { z } from "zod";
+import type { SectionIssue } from "./contentReview";
+
+export const EDITORIAL_DECISIONS = ['approve', 'reject', 'request-revisions'] as const;
+
+// An editor's decision on a reviewed book, submitted to resume the publication gate
+export const editorialDecisionSchema = z.object({
+  decision: z.enum(EDITORIAL_DECISIONS),
+  reviewer: z.string().trim().min(1),
+  comments: z.string().trim().min(1).optional(),
+  sectionComments: z.array(z.object({
+    chapterNumber: z.number().int(),
+    sectionTitle: z.string().trim().min(1),
+    comment: z.string().trim().min(1),
+  })).optional(),
+}).refine(
+  input => input.decision !== 'request-revisions' || Boolean(input.comments) || (input.sectionComments?.length ?? 0) > 0,
+  { message: 'Requesting revisions needs comments for the writer', path: ['comments'] },
+);
+
+export type EditorialDecision = z.infer<typeof editorialDecisionSchema>;
+
+// The decision as carried through the workflow and shown in the run history
+export const recordedEditorialDecisionSchema = z.object({
+  decision: z.enum(EDITORIAL_DECISIONS),
+  reviewer: z.string(),
+  comments: z.string().optional(),
+  decidedAt: z.string(),
+});
+
+export type RecordedEditorialDecision = z.infer<typeof recordedEditorialDecisionSchema>;
+
+/**
+ * Turns an editor's revision request into section issues for the writing agent.
+ * Comments on specific sections target those sections; general comments are
+ * added to every section the reviewer already flagged, or to every section in
+ * the book when nothing was flagged.
+ */
+export const editorCommentsToIssues = (
+  decision: EditorialDecision,
+  reviewerIssues: SectionIssue[],
+  chapters: { number: number; sections: { title: string }[] }[],
+): SectionIssue[] => {
+  const sectionIssues: SectionIssue[] = (decision.sectionComments ?? []).map(comment => ({
+    chapterNumber: comment.chapterNumber,
+    sectionTitle: comment.sectionTitle,
+    severity: 'major',
+    problem: `Editor comment: ${comment.comment}`,
+    suggestion: 'Revise the section as the editor asked.',
+  }));
+
+  if (!decision.comments) {
+    return sectionIssues;
+  }
+
+  const flaggedSections = new Map<string, { chapterNumber: number; sectionTitle: string }>();
+  for (const issue of reviewerIssues) {
+    flaggedSections.set(`${issue.chapterNumber}.${issue.sectionTitle.toLowerCase()}`, issue);
+  }
+  const targetSections = flaggedSections.size > 0
+    ? [...flaggedSections.values()]
+    : chapters.flatMap(chapter => chapter.sections.map(section => ({
+      chapterNumber: chapter.number,
+      sectionTitle: section.title,
+    })));
+
+  return [
+    ...sectionIssues,
+    ...targetSections.map((section): SectionIssue => ({
+      chapterNumber: section.chapterNumber,
+      sectionTitle: section.sectionTitle,
+      severity: 'major',
+      problem: `Editor comment on the book: ${decision.comments}`,
+      suggestion: 'Apply the editor\'s comment where it is relevant to this section.',
+    })),
+  ];
+};
@@ -0,0 +1,527 @@
+import { existsSync, readFileSync, statSync } from "fs";
+import { basename, extname, relative, resolve } from "path";
+import type { Mastra } from "@mastra/core";
+import type { Context } from "hono";
+import { streamSSE } from "hono/streaming";
+
+import type { ApiRoute } from "../../triggers/slackTriggers";
+import {
+  subscribeToWorkflowEvents,
+  TERMINAL_WORKFLOW_EVENTS,
+  type WorkflowEventEnvelope,
+} from "../events/workflowEvents";
+import {
+  EXPORT_CONTENT_TYPES,
+  isBookExportFormat,
+} from "../export/exportFormats";
+import {
+  calculateProgressPercentage,
+  loadProgress,
+  type ProgressData,
+} from "../tools/progressTrackingTool";
+
+const SITE_CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".json": "application/json",
+};
+
+// Shapes mirror `WorkflowStep` / `WorkflowProgress` in frontend/src/components/WorkflowProgress.tsx
+type StepStatus = "pending" | "in_progress" | "completed" | "failed";
+
+interface WorkflowStepView {
+  id: string;
+  name: string;
+  status: StepStatus;
+  startTime?: string;
+  endTime?: string;
+  details?: string;
+  error?: string;
+  progress?: number;
+  substeps?: Array<{
+    name: string;
+    status: StepStatus;
+    details?: string;
+  }>;
+}
+
+export interface WorkflowProgressView {
+  workflowId: string;
+  status: "running" | "completed" | "failed";
+  steps: WorkflowStepView[];
+  progress: number;
+  currentStep?: string;
+  // Present while the run is suspended for a human decision
+  awaitingApproval?: {
+    stepId: string;
+    requestedAt: string;
+  };
+  startTime: string;
+  endTime?: string;
+  result?: {
+    pdfUrl?: string;
+    pdfPath?: string;
+    exports?: Array<{
+      format: string;
+      url: string;
+      fileSize: number;
+    }>;
+    wordCount?: number;
+    completedAt?: string;
+  };
+}
+
+type RunSnapshot = Awaited<
+  ReturnType<ReturnType<Mastra["getWorkflow"]>["getWorkflowRunExecutionResult"]>
+>;
+
+export const WORKFLOW_NAME = "improvedEducationalContentWorkflow";
+
+// Keeps proxies from closing idle event streams between long sections
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// Order matches the step chain in improvedEducationalContentWorkflow
+const WORKFLOW_STEPS = [
+  { id: "initialize-and-plan", name: "Planning outline" },
+  { id: "approve-outline", name: "Approving outline" },
+  { id: "generate-all-content", name: "Writing chapters" },
+  { id: "review-content-improved", name: "Reviewing content" },
+  { id: "revise-content", name: "Revising content" },
+  { id: "approve-publication", name: "Approving publication" },
+  { id: "generate-quizzes", name: "Writing quizzes" },
+  { id: "generate-exercises", name: "Writing exercises" },
+  { id: "build-glossary", name: "Building glossary" },
+  { id: "build-index", name: "Building index" },
+  { id: "generate-final-pdf", name: "Formatting PDF" },
+];
+
+const mapSnapshotStatus = (status: string): StepStatus => {
+  switch (status) {
+    case "success":
+      return "completed";
+    case "failed":
+      return "failed";
+    case "running":
+    case "suspended":
+      return "in_progress";
+    default:
+      return "pending";
+  }
+};
+
+// Run IDs are UUIDs; anything else could escape the progress directory
+export const isValidWorkflowId = (workflowId: string): boolean =>
+  /^[A-Za-z0-9_-]+$/.test(workflowId);
+
+const toIsoString = (timestamp?: number): string | undefined =>
+  timestamp ? new Date(timestamp).toISOString() : undefined;
+
+const loadRunSnapshot = async (
+  mastra: Mastra,
+  runId: string,
+): Promise<RunSnapshot> => {
+  try {
+    return await mastra
+      .getWorkflow(WORKFLOW_NAME)
+      .getWorkflowRunExecutionResult(runId);
+  } catch (error) {
+    mastra.getLogger()?.warn("⚠️ [ProgressAPI] Unable to load run snapshot", {
+      runId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+};
+
+// Derives a step's status from the progress file when no snapshot entry exists
+const deriveStepStatus = (
+  stepIndex: number,
+  progress: ProgressData | null,
+): StepStatus => {
+  if (!progress) {
+    return stepIndex === 0 ? "in_progress" : "pending";
+  }
+  if (progress.status === "completed") {
+    return "completed";
+  }
+
+  // The progress file is written at the end of the first step
+  const currentIndex = Math.max(
+    1,
+    WORKFLOW_STEPS.findIndex((step) => step.id === progress.currentStepId),
+  );
+  if (stepIndex < currentIndex) {
+    return "completed";
+  }
+  if (stepIndex > currentIndex) {
+    return "pending";
+  }
+  return progress.status === "failed" ? "failed" : "in_progress";
+};
+
+const buildChapterSubsteps = (
+  progress: ProgressData,
+): WorkflowStepView["substeps"] => {
+  if (!progress.chapters) {
+    return undefined;
+  }
+
+  return progress.chapters.map((chapter) => {
+    const completed = progress.completedChapterDetails.find(
+      (detail) => detail.chapterNumber === chapter.number,
+    );
+    const name = `Chapter ${chapter.number}: ${chapter.title}`;
+
+    if (completed) {
+      return {
+        name,
+        status: "completed" as const,
+        details: `${completed.wordCount.toLocaleString()} words`,
+      };
+    }
+    if (progress.activeChapters?.includes(chapter.number)) {
+      return {
+        name,
+        status:
+          progress.status === "failed"
+            ? ("failed" as const)
+            : ("in_progress" as const),
+        details: `${chapter.sectionCount} sections`,
+      };
+    }
+    return {
+      name,
+      status: "pending" as const,
+      details: `${chapter.sectionCount} sections`,
+    };
+  });
+};
+
+export const buildWorkflowProgressView = (
+  workflowId: string,
+  progress: ProgressData | null,
+  snapshot: RunSnapshot,
+): WorkflowProgressView | null => {
+  if (!progress && !snapshot) {
+    return null;
+  }
+
+  const lastError = progress?.errors[progress.errors.length - 1];
+  const snapshotError = snapshot?.error
+    ? snapshot.error instanceof Error
+      ? snapshot.error.message
+      : String(snapshot.error)
+    : undefined;
+
+  const steps: WorkflowStepView[] = WORKFLOW_STEPS.map((step, index) => {
+    const snapshotStep = snapshot?.steps?.[step.id];
+    const status = snapshotStep
+      ? mapSnapshotStatus(snapshotStep.status)
+      : deriveStepStatus(index, progress);
+
+    const view: WorkflowStepView = {
+      id: step.id,
+      name: step.name,
+      status,
+      startTime: toIsoString(snapshotStep?.startedAt),
+      endTime:
+        status === "completed" ? toIsoString(snapshotStep?.endedAt) : undefined,
+    };
+
+    if (status === "failed") {
+      view.error = snapshotStep?.error
+        ? String(snapshotStep.error)
+        : (lastError ?? snapshotError);
+    }
+
+    if (progress?.awaitingApproval?.stepId === step.id) {
+      view.details = "Waiting for approval";
+    }
+
+    if (step.id === "generate-all-content" && progress) {
+      view.progress =
+        progress.totalSections > 0
+          ? Math.round(
+              (progress.completedSections / progress.totalSections) * 100,
+            )
+          : 0;
+      view.details = `${progress.completedSections} of ${progress.totalSections} sections, ${progress.totalWordsGenerated.toLocaleString()} words`;
+      view.substeps = buildChapterSubsteps(progress);
+    }
+
+    return view;
+  });
+
+  let status: WorkflowProgressView["status"] = "running";
+  if (progress?.status === "completed" || snapshot?.status === "success") {
+    status = "completed";
+  } else if (progress?.status === "failed" || snapshot?.status === "failed") {
+    status = "failed";
+  }
+
+  const bookPath: string | undefined =
+    progress?.result?.bookPath ?? snapshot?.result?.bookPath;
+  const completedAt: string | undefined =
+    progress?.result?.completedAt ?? snapshot?.result?.completedAt;
+
+  return {
+    workflowId,
+    status,
+    steps,
+    progress:
+      status === "completed"
+        ? 100
+        : progress
+          ? calculateProgressPercentage(progress)
+          : 0,
+    currentStep: progress?.currentStep,
+    awaitingApproval:
+      status === "running" ? progress?.awaitingApproval : undefined,
+    startTime:
+      progress?.startTime ??
+      toIsoString(snapshot?.steps?.[WORKFLOW_STEPS[0].id]?.startedAt) ??
+      new Date().toISOString(),
+    endTime: status === "running" ? undefined : progress?.lastUpdate,
+    result:
+      status === "completed"
+        ? {
+            pdfUrl: bookPath ? `/api/workflows/${workflowId}/pdf` : undefined,
+            pdfPath: bookPath,
+            exports: progress?.result?.exports?.map((bookExport) => ({
+              format: bookExport.format,
+              // The course site is browsed in place rather than downloaded
+              url:
+                bookExport.format === "site"
+                  ? `/api/books/${workflowId}/`
+                  : `/api/workflows/${workflowId}/exports/${bookExport.format}`,
+              fileSize: bookExport.fileSize,
+            })),
+            wordCount:
+              progress?.totalWordsGenerated ?? snapshot?.result?.finalWordCount,
+            completedAt,
+          }
+        : undefined,
+  };
+};
+
+export const workflowProgressRoutes: ApiRoute[] = [
+  // Polled by the WorkflowProgress component when the event stream is unavailable
+  {
+    path: "/api/workflows/:workflowId/progress",
+    method: "GET",
+    handler: async (c: Context) => {
+      const mastra: Mastra = c.get("mastra");
+      const workflowId = c.req.param("workflowId");
+      if (!isValidWorkflowId(workflowId)) {
+        return c.json({ error: "Invalid workflow ID" }, 400);
+      }
+
+      const progress = loadProgress(workflowId);
+      const snapshot = await loadRunSnapshot(mastra, workflowId);
+      const view = buildWorkflowProgressView(workflowId, progress, snapshot);
+
+      if (!view) {
+        return c.json(
+          { error: `No progress found for workflow ${workflowId}` },
+          404,
+        );
+      }
+      return c.json(view);
+    },
+  },
+  // Live alternative to /progress: typed events, each batch followed by a fresh snapshot
+  {
+    path: "/api/runs/:workflowId/events",
+    method: "GET",
+    handler: async (c: Context) => {
+      const mastra: Mastra = c.get("mastra");
+      const workflowId = c.req.param("workflowId");
+      if (!isValidWorkflowId(workflowId)) {
+        return c.json({ error: "Invalid workflow ID" }, 400);
+      }
+
+      return streamSSE(c, async (stream) => {
+        let id = 1;
+        const pending: WorkflowEventEnvelope[] = [];
+        let wake: (() => void) | null = null;
+
+        const unsubscribe = subscribeToWorkflowEvents(workflowId, (event) => {
+          pending.push(event);
+          wake?.();
+        });
+        stream.onAbort(() => {
+          wake?.();
+        });
+
+        const writeSnapshot = async () => {
+          const view = buildWorkflowProgressView(
+            workflowId,
+            loadProgress(workflowId),
+            await loadRunSnapshot(mastra, workflowId),
+          );
+          if (view) {
+            await stream.writeSSE({
+              event: "snapshot",
+              data: JSON.stringify(view),
+              id: String(id++),
+            });
+          }
+          return view;
+        };
+
+        const waitForEvents = () =>
+          new Promise<void>((resolve) => {
+            if (pending.length > 0) {
+              resolve();
+              return;
+            }
+            const timer = setTimeout(resolve, HEARTBEAT_INTERVAL_MS);
+            wake = () => {
+              clearTimeout(timer);
+              resolve();
+            };
+          });
+
+        try {
+          const initialView = await writeSnapshot();
+          if (initialView && initialView.status !== "running") {
+            return;
+          }
+
+          while (!stream.aborted) {
+            await waitForEvents();
+            wake = null;
+            if (stream.aborted) {
+              break;
+            }
+
+            if (pending.length === 0) {
+              await stream.writeSSE({ event: "heartbeat", data: "{}" });
+              continue;
+            }
+
+            let finished = false;
+            while (pending.length > 0) {
+              const event = pending.shift()!;
+              await stream.writeSSE({
+                event: event.type,
+                data: JSON.stringify(event),
+                id: String(id++),
+              });
+              finished ||= TERMINAL_WORKFLOW_EVENTS.includes(event.type);
+            }
+
+            const view = await writeSnapshot();
+            if (finished || (view && view.status !== "running")) {
+              break;
+            }
+          }
+        } finally {
+          unsubscribe();
+        }
+      });
+    },
+  },
+  {
+    path: "/api/workflows/:workflowId/pdf",
+    method: "GET",
+    handler: async (c: Context) => {
+      const workflowId = c.req.param("workflowId");
+      if (!isValidWorkflowId(workflowId)) {
+        return c.json({ error: "Invalid workflow ID" }, 400);
+      }
+
+      const bookPath = loadProgress(workflowId)?.result?.bookPath;
+
+      if (!bookPath || !existsSync(bookPath)) {
+        return c.json(
+          { error: `No book found for workflow ${workflowId}` },
+          404,
+        );
+      }
+      return c.body(readFileSync(bookPath), 200, {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${basename(bookPath)}"`,
+      });
+    },
+  },
+  // Optional formats (EPUB, ...) exported alongside the PDF
+  {
+    path: "/api/workflows/:workflowId/exports/:format",
+    method: "GET",
+    handler: async (c: Context) => {
+      const workflowId = c.req.param("workflowId");
+      const format = c.req.param("format");
+      if (!isValidWorkflowId(workflowId)) {
+        return c.json({ error: "Invalid workflow ID" }, 400);
+      }
+      if (!isBookExportFormat(format)) {
+        return c.json({ error: `Unknown export format ${format}` }, 400);
+      }
+
+      const exportPath = loadProgress(workflowId)?.result?.exports?.find(
+        (bookExport) => bookExport.format === format,
+      )?.path;
+
+      if (!exportPath || !existsSync(exportPath)) {
+        return c.json(
+          { error: `No ${format} export found for workflow ${workflowId}` },
+          404,
+        );
+      }
+      if (format === "site") {
+        return c.redirect(`/api/books/${workflowId}/`);
+      }
+      return c.body(readFileSync(exportPath), 200, {
+        "Content-Type": EXPORT_CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${basename(exportPath)}"`,
+      });
+    },
+  },
+  // Static course site exported by the run, served file by file
+  {
+    path: "/api/books/:workflowId/*",
+    method: "GET",
+    handler: async (c: Context) => {
+      const workflowId = c.req.param("workflowId");
+      if (!isValidWorkflowId(workflowId)) {
+        return c.json({ error: "Invalid workflow ID" }, 400);
+      }
+
+      const siteDir = loadProgress(workflowId)?.result?.exports?.find(
+        (bookExport) => bookExport.format === "site",
+      )?.path;
+
+      if (!siteDir || !existsSync(siteDir)) {
+        return c.json(
+          { error: `No course site found for workflow ${workflowId}` },
+          404,
+        );
+      }
+
+      const prefix = `/api/books/${workflowId}`;
+      const requested = c.req.path.slice(prefix.length);
+      // Pages link to each other relatively, so the site root needs its trailing slash
+      if (requested === "") {
+        return c.redirect(`${prefix}/`);
+      }
+
+      const filePath = resolve(
+        siteDir,
+        `.${requested.endsWith("/") ? `${requested}index.html` : requested}`,
+      );
+      if (relative(siteDir, filePath).startsWith("..")) {
+        return c.json({ error: "Invalid path" }, 400);
+      }
+      if (!existsSync(filePath) || !statSync(filePath).isFile()) {
+        return c.json({ error: `Not found: ${requested}` }, 404);
+      }
+
+      return c.body(readFileSync(filePath), 200, {
+        "Content-Type":
+          SITE_CONTENT_TYPES[extname(filePath)] ?? "application/octet-stream",
+      });
+    },
+  },
+];
@@ -0,0 +1,245 @@
+import type { Mastra } from "@mastra/core";
+import type { Context } from "hono";
+
+import type { ApiRoute } from "../../triggers/slackTriggers";
+import { outlineEditSchema } from "../planning/outlineGeneration";
+import { editorialDecisionSchema } from "../review/editorialDecision";
+import {
+  loadChapterQuizzes,
+  loadOutlineCheckpoint,
+  loadReviewReport,
+  loadRunHistory,
+} from "../storage/contentCheckpoints";
+import { loadProgress } from "../tools/progressTrackingTool";
+import { isValidWorkflowId, WORKFLOW_NAME } from "./workflowProgressRoutes";
+
+export const workflowRunRoutes: ApiRoute[] = [
+  // Starts a new run that reuses the outline and finished sections of an earlier one
+  {
+    path: "/api/runs/:workflowId/resume",
+    method: "POST",
+    handler: async (c: Context) => {
+      const mastra: Mastra = c.get("mastra");
+      const logger = mastra.getLogger();
+      const workflowId = c.req.param("workflowId");
+      if (!isValidWorkflowId(workflowId)) {
+        return c.json({ error: "Invalid workflow ID" }, 400);
+      }
+
+      if (!loadOutlineCheckpoint(workflowId)) {
+        return c.json(
+          { error: `No saved outline found for workflow ${workflowId}` },
+          404,
+        );
+      }
+
+      const run = await mastra.getWorkflow(WORKFLOW_NAME).createRunAsync();
+      // Generation takes far longer than a request, so don't wait for the result
+      run
+        .start({ inputData: { resumeFromWorkflowId: workflowId } })
+        .catch((error) => {
+          logger?.error("❌ [RunAPI] Resumed run failed", {
+            workflowId,
+            runId: run.runId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+
+      logger?.info("♻️ [RunAPI] Resuming workflow", {
+        workflowId,
+        runId: run.runId,
+      });
+
+      return c.json({ runId: run.runId, resumedFrom: workflowId });
+    },
+  },
+  // Latest per-chapter rubric scores and the book-level aggregate for a run
+  {
+    path: "/api/runs/:workflowId/review",
+    method: "GET",
+    handler: async (c: Context) => {
+      const workflowId = c.req.param("workflowId");
+      if (!isValidWorkflowId(workflowId)) {
+        return c.json({ error: "Invalid workflow ID" }, 400);
+      }
+
+      const report = loadReviewReport(workflowId);
+      if (!report) {
+        return c.json(
+          { error: `No review found for workflow ${workflowId}` },
+          404,
+        );
+      }
+      return c.json(report);
+    },
+  },
+  // The planned outline, including whether and by whom it was approved
+  {
+    path: "/api/runs/:workflowId/outline",
+    method: "GET",
+    handler: async (c: Context) => {
+      const workflowId = c.req.param("workflowId");
+      if (!isValidWorkflowId(workflowId)) {
+        return c.json({ error: "Invalid workflow ID" }, 400);
+      }
+
+      const outline = loadOutlineCheckpoint(workflowId);
+      if (!outline) {
+        return c.json(
+          { error: `No outline found for workflow ${workflowId}` },
+          404,
+        );
+      }
+      return c.json({
+        ...outline,
+        awaitingApproval:
+          loadProgress(workflowId)?.awaitingApproval?.stepId ===
+          "approve-outline",
+      });
+    },
+  },
+  // Approves the outline (with any edits) and resumes the suspended run
+  {
+    path: "/api/runs/:workflowId/outline/approve",
+    method: "POST",
+    handler: async (c: Context) => {
+      const mastra: Mastra = c.get("mastra");
+      const logger = mastra.getLogger();
+      const workflowId = c.req.param("workflowId");
+      if (!isValidWorkflowId(workflowId)) {
+        return c.json({ error: "Invalid workflow ID" }, 400);
+      }
+
+      const parsed = outlineEditSchema.safeParse(
+        await c.req.json().catch(() => null),
+      );
+      if (!parsed.success) {
+        return c.json(
+          { error: "Invalid outline", issues: parsed.error.issues },
+          400,
+        );
+      }
+
+      if (
+        loadProgress(workflowId)?.awaitingApproval?.stepId !== "approve-outline"
+      ) {
+        return c.json(
+          {
+            error: `Workflow ${workflowId} is not waiting for outline approval`,
+          },
+          409,
+        );
+      }
+
+      const run = await mastra
+        .getWorkflow(WORKFLOW_NAME)
+        .createRunAsync({ runId: workflowId });
+      // Writing the book takes far longer than a request, so don't wait for it
+      run
+        .resume({ step: "approve-outline", resumeData: parsed.data })
+        .catch((error) => {
+          logger?.error("❌ [RunAPI] Approved run failed", {
+            workflowId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+
+      logger?.info("✅ [RunAPI] Outline approved", {
+        workflowId,
+        approvedBy: parsed.data.approvedBy,
+        chapterCount: parsed.data.chapters.length,
+      });
+
+      return c.json({ runId: workflowId, status: "resumed" }, 202);
+    },
+  },
+  // Records an editor's publication decision and resumes the suspended run
+  {
+    path: "/api/runs/:workflowId/publication/decision",
+    method: "POST",
+    handler: async (c: Context) => {
+      const mastra: Mastra = c.get("mastra");
+      const logger = mastra.getLogger();
+      const workflowId = c.req.param("workflowId");
+      if (!isValidWorkflowId(workflowId)) {
+        return c.json({ error: "Invalid workflow ID" }, 400);
+      }
+
+      const parsed = editorialDecisionSchema.safeParse(
+        await c.req.json().catch(() => null),
+      );
+      if (!parsed.success) {
+        return c.json(
+          { error: "Invalid decision", issues: parsed.error.issues },
+          400,
+        );
+      }
+
+      if (
+        loadProgress(workflowId)?.awaitingApproval?.stepId !==
+        "approve-publication"
+      ) {
+        return c.json(
+          {
+            error: `Workflow ${workflowId} is not waiting for a publication decision`,
+          },
+          409,
+        );
+      }
+
+      const run = await mastra
+        .getWorkflow(WORKFLOW_NAME)
+        .createRunAsync({ runId: workflowId });
+      // Revisions and PDF rendering outlast the request, so don't wait for them
+      run
+        .resume({ step: "approve-publication", resumeData: parsed.data })
+        .catch((error) => {
+          logger?.error("❌ [RunAPI] Run failed after publication decision", {
+            workflowId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+
+      logger?.info("🧑‍⚖️ [RunAPI] Publication decision received", {
+        workflowId,
+        decision: parsed.data.decision,
+        reviewer: parsed.data.reviewer,
+      });
+
+      return c.json(
+        {
+          runId: workflowId,
+          decision: parsed.data.decision,
+          status: "resumed",
+        },
+        202,
+      );
+    },
+  },
+  // Approval decisions made on the run, with who made them and when
+  {
+    path: "/api/runs/:workflowId/history",
+    method: "GET",
+    handler: async (c: Context) => {
+      const workflowId = c.req.param("workflowId");
+      if (!isValidWorkflowId(workflowId)) {
+        return c.json({ error: "Invalid workflow ID" }, 400);
+      }
+
+      return c.json({ workflowId, history: loadRunHistory(workflowId) });
+    },
+  },
+  // End-of-chapter quizzes with answers and explanations, for import into an LMS
+  {
+    path: "/api/runs/:workflowId/quizzes",
+    method: "GET",
+    handler: async (c: Context) => {
+      const workflowId = c.req.param("workflowId");
+      if (!isValidWorkflowId(workflowId)) {
+        return c.json({ error: "Invalid workflow ID" }, 400);
+      }
+
+      return c.json({ workflowId, quizzes: loadChapterQuizzes(workflowId) });
+    },
+  },
+];
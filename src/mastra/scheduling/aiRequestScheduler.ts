@@ -0,0 +1,123 @@
+// Shared scheduling for AI calls: a concurrency cap for content generation and a
+// process-wide rate-limit pause, so one 429 slows every caller instead of each
+// caller discovering the limit on its own.
+
+const parsePositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const AI_MAX_CONCURRENT_REQUESTS = parsePositiveInt(process.env.AI_MAX_CONCURRENT_REQUESTS, 4);
+export const CONTENT_CHAPTER_CONCURRENCY = parsePositiveInt(process.env.CONTENT_CHAPTER_CONCURRENCY, 2);
+export const CONTENT_SECTION_CONCURRENCY = parsePositiveInt(process.env.CONTENT_SECTION_CONCURRENCY, 3);
+
+// How long every caller pauses after a 429 that doesn't say when to retry
+export const RATE_LIMIT_BACKOFF_MS = 30000;
+
+let rateLimitedUntil = 0;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Pauses all scheduled AI requests for at least `waitMs`
+export const reportRateLimit = (waitMs: number): void => {
+  rateLimitedUntil = Math.max(rateLimitedUntil, Date.now() + waitMs);
+};
+
+export const waitForRateLimit = async (): Promise<void> => {
+  // Loop because another caller may extend the pause while we sleep
+  while (Date.now() < rateLimitedUntil) {
+    await sleep(rateLimitedUntil - Date.now());
+  }
+};
+
+export const isRateLimitError = (error: unknown): boolean => {
+  if (error && typeof error === 'object' && 'statusCode' in error && error.statusCode === 429) {
+    return true;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b429\b|rate.?limit/i.test(message);
+};
+
+export type ConcurrencyLimiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+export const createConcurrencyLimiter = (limit: number): ConcurrencyLimiter => {
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  const acquire = async () => {
+    if (active < limit) {
+      active++;
+      return;
+    }
+    await new Promise<void>(resolve => queue.push(resolve));
+  };
+
+  // Hand the slot straight to the next waiter so newcomers cannot overtake it
+  const release = () => {
+    const next = queue.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    await acquire();
+    try {
+      await waitForRateLimit();
+      return await task();
+    } finally {
+      release();
+    }
+  };
+};
+
+// Caps model calls made for content generation across all chapters and runs
+export const aiRequestLimiter = createConcurrencyLimiter(AI_MAX_CONCURRENT_REQUESTS);
+
+// Thrown for items never started because an earlier item failed
+class SkippedTaskError extends Error {}
+
+/**
+ * Maps `items` through `fn` with at most `limit` in flight, returning results in
+ * input order. After the first failure (or once `signal` aborts) no new items are
+ * started; in-flight ones are allowed to finish before the first real error is thrown.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<R[]> => {
+  const limiter = createConcurrencyLimiter(limit);
+  let failed = false;
+  let firstError: unknown;
+
+  const results = await Promise.allSettled(items.map((item, index) => limiter(async () => {
+    if (failed || signal?.aborted) {
+      throw new SkippedTaskError('Skipped after an earlier failure');
+    }
+    try {
+      return await fn(item, index);
+    } catch (error) {
+      // Nested maps skip their remaining items too; that is not the root cause
+      if (!failed && !(error instanceof SkippedTaskError)) {
+        failed = true;
+        firstError = error;
+      }
+      throw error;
+    }
+  })));
+
+  if (failed) {
+    throw firstError;
+  }
+
+  const rejected = results.find(result => result.status === 'rejected');
+  if (rejected) {
+    throw (rejected as PromiseRejectedResult).reason;
+  }
+
+  return results.map(result => (result as PromiseFulfilledResult<R>).value);
+};
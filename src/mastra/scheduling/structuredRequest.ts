@@ -0,0 +1,96 @@
+import type { Agent } from "@mastra/core/agent";
+import type { IMastraLogger } from "@mastra/core/logger";
+import { z } from "zod";
+import {
+  aiRequestLimiter,
+  isRateLimitError,
+  RATE_LIMIT_BACKOFF_MS,
+  reportRateLimit,
+} from "./aiRequestScheduler";
+
+// Attempts per request include the first one; the rest are repair prompts
+const STRUCTURED_REQUEST_ATTEMPTS = 3;
+// How much of a rejected answer is quoted back in the repair prompt
+const PREVIOUS_OUTPUT_MAX_CHARS = 6000;
+
+export class StructuredOutputError extends Error {
+  constructor(message: string, public readonly problems: string[]) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+const formatIssues = (error: z.ZodError): string[] =>
+  error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+
+/**
+ * Sends a structured request to `agent`, feeding schema and `validate` problems
+ * back until the answer is valid. Rate limits pause every scheduled request.
+ * Throws `StructuredOutputError` once the attempts run out.
+ */
+export const requestStructuredOutput = async <T>({
+  agent,
+  prompt: initialPrompt,
+  schema,
+  resourceId,
+  threadId,
+  maxSteps = 8,
+  validate = () => [],
+  logger,
+}: {
+  agent: Agent;
+  prompt: string;
+  // Input type left open so schemas with defaults resolve to their parsed output
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  resourceId: string;
+  threadId: string;
+  maxSteps?: number;
+  validate?: (value: T) => string[];
+  logger?: IMastraLogger;
+}): Promise<T> => {
+  let prompt = initialPrompt;
+  let problems: string[] = [];
+
+  for (let attempt = 1; attempt <= STRUCTURED_REQUEST_ATTEMPTS; attempt++) {
+    let previousOutput = '';
+    try {
+      const result = await aiRequestLimiter(() => agent.generate([
+        { role: "user", content: prompt },
+      ], {
+        resourceId,
+        threadId,
+        maxSteps,
+        experimental_output: schema,
+      }));
+
+      previousOutput = result.object ? JSON.stringify(result.object) : result.text;
+      const parsed = schema.safeParse(result.object);
+      if (parsed.success) {
+        problems = validate(parsed.data);
+        if (problems.length === 0) {
+          return parsed.data;
+        }
+      } else {
+        problems = result.object ? formatIssues(parsed.error) : ['No structured output was returned'];
+      }
+    } catch (error) {
+      if (isRateLimitError(error)) {
+        reportRateLimit(RATE_LIMIT_BACKOFF_MS);
+      }
+      problems = [`Request failed: ${error instanceof Error ? error.message : String(error)}`];
+    }
+
+    logger?.warn("⚠️ [StructuredRequest] Invalid structured output", { resourceId, threadId, attempt, problems });
+    prompt = `${initialPrompt}
+
+Your previous answer could not be accepted:
+${problems.map(problem => `- ${problem}`).join('\n')}
+${previousOutput ? `\nPrevious output:\n${previousOutput.substring(0, PREVIOUS_OUTPUT_MAX_CHARS)}\n` : ''}
+Return the complete answer again with every problem fixed.`;
+  }
+
+  throw new StructuredOutputError(
+    `Request ${threadId} was not valid after ${STRUCTURED_REQUEST_ATTEMPTS} attempts: ${problems.join('; ')}`,
+    problems,
+  );
+};
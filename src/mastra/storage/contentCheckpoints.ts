@@ -0,0 +1,226 @@
+import { writeFileSync, readFileSync, mkdirSync, existsSync, readdirSync, renameSync, cpSync } from "fs";
+import { join } from "path";
+import type { BookReviewReport } from "../review/contentReview";
+import type { ChapterQuiz } from "../assessment/chapterQuizzes";
+import type { GlossaryEntry } from "../backmatter/glossary";
+import type { ChapterExerciseSet } from "../assessment/chapterExercises";
+import type { IndexTerm } from "../backmatter/indexTerms";
+
+// Generated content is checkpointed to disk as it completes so a failed run
+// (or an Inngest retry of the content step) only regenerates what is missing.
+
+export interface PlannedChapter {
+  number: number;
+  title: string;
+  sections: string[];
+  // Parallel to `sections`
+  sectionWordBudgets: number[];
+  targetWordCount: number;
+  learningObjectives: string[];
+  prerequisites: string[];
+}
+
+export interface OutlineCheckpoint {
+  topic: string;
+  targetAudience: string;
+  targetWordCount: number;
+  outline: string;
+  chapters: PlannedChapter[];
+  // Set once a person (or auto-approval) has signed off on the outline
+  approvedAt?: string;
+  approvedBy?: string;
+  savedAt: string;
+}
+
+export interface SectionCheckpoint {
+  chapterNumber: number;
+  sectionIndex: number;
+  title: string;
+  content: string;
+  wordCount: number;
+  targetWordCount?: number;
+  // Signed percentage the section ended up off its target
+  lengthDeviation?: number;
+  savedAt: string;
+}
+
+const getCheckpointDir = (workflowId: string): string =>
+  join(process.cwd(), 'workflow_content', workflowId);
+
+const getSectionFileName = (chapterNumber: number, sectionIndex: number): string =>
+  `chapter-${chapterNumber}_section-${sectionIndex}.json`;
+
+const readJson = <T>(path: string): T | null => {
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as T;
+  } catch (error) {
+    return null;
+  }
+};
+
+export const saveOutlineCheckpoint = (
+  workflowId: string,
+  outline: Omit<OutlineCheckpoint, 'savedAt'>,
+): void => {
+  const dir = getCheckpointDir(workflowId);
+  mkdirSync(dir, { recursive: true });
+  const checkpoint: OutlineCheckpoint = { ...outline, savedAt: new Date().toISOString() };
+  writeFileSync(join(dir, 'outline.json'), JSON.stringify(checkpoint, null, 2), 'utf8');
+};
+
+export const loadOutlineCheckpoint = (workflowId: string): OutlineCheckpoint | null =>
+  readJson<OutlineCheckpoint>(join(getCheckpointDir(workflowId), 'outline.json'));
+
+// Latest book-level review, overwritten after every review round
+export const saveReviewReport = (workflowId: string, report: BookReviewReport): void => {
+  const dir = getCheckpointDir(workflowId);
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, 'review.json'), JSON.stringify(report, null, 2), 'utf8');
+};
+
+export const loadReviewReport = (workflowId: string): BookReviewReport | null =>
+  readJson<BookReviewReport>(join(getCheckpointDir(workflowId), 'review.json'));
+
+// End-of-chapter quizzes with their answers, also served as JSON for LMS import
+export const saveChapterQuizzes = (workflowId: string, quizzes: ChapterQuiz[]): void => {
+  const dir = getCheckpointDir(workflowId);
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, 'quizzes.json'), JSON.stringify(quizzes, null, 2), 'utf8');
+};
+
+export const loadChapterQuizzes = (workflowId: string): ChapterQuiz[] =>
+  readJson<ChapterQuiz[]>(join(getCheckpointDir(workflowId), 'quizzes.json')) ?? [];
+
+export const saveChapterExercises = (workflowId: string, exercises: ChapterExerciseSet[]): void => {
+  const dir = getCheckpointDir(workflowId);
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, 'exercises.json'), JSON.stringify(exercises, null, 2), 'utf8');
+};
+
+export const loadChapterExercises = (workflowId: string): ChapterExerciseSet[] =>
+  readJson<ChapterExerciseSet[]>(join(getCheckpointDir(workflowId), 'exercises.json')) ?? [];
+
+export const saveGlossary = (workflowId: string, glossary: GlossaryEntry[]): void => {
+  const dir = getCheckpointDir(workflowId);
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, 'glossary.json'), JSON.stringify(glossary, null, 2), 'utf8');
+};
+
+// Null when no glossary has been built for the run yet
+export const loadGlossary = (workflowId: string): GlossaryEntry[] | null =>
+  readJson<GlossaryEntry[]>(join(getCheckpointDir(workflowId), 'glossary.json'));
+
+// Human (and automatic) sign-offs on a run, oldest first
+export interface RunHistoryEntry {
+  stepId: string;
+  kind: 'outline' | 'publication';
+  decision: string;
+  reviewer?: string;
+  comments?: string;
+  qualityScore?: number;
+  revisionRound?: number;
+  recordedAt: string;
+}
+
+export const appendRunHistory = (
+  workflowId: string,
+  entry: Omit<RunHistoryEntry, 'recordedAt'>,
+): void => {
+  const dir = getCheckpointDir(workflowId);
+  mkdirSync(dir, { recursive: true });
+  const history = [...loadRunHistory(workflowId), { ...entry, recordedAt: new Date().toISOString() }];
+  writeFileSync(join(dir, 'history.json'), JSON.stringify(history, null, 2), 'utf8');
+};
+
+export const loadRunHistory = (workflowId: string): RunHistoryEntry[] =>
+  readJson<RunHistoryEntry[]>(join(getCheckpointDir(workflowId), 'history.json')) ?? [];
+
+export const saveSectionCheckpoint = (
+  workflowId: string,
+  section: Omit<SectionCheckpoint, 'savedAt'>,
+): void => {
+  const dir = join(getCheckpointDir(workflowId), 'sections');
+  mkdirSync(dir, { recursive: true });
+  const checkpoint: SectionCheckpoint = { ...section, savedAt: new Date().toISOString() };
+  const sectionPath = join(dir, getSectionFileName(section.chapterNumber, section.sectionIndex));
+  // Write then rename so a crash mid-write never leaves a truncated checkpoint
+  writeFileSync(`${sectionPath}.tmp`, JSON.stringify(checkpoint, null, 2), 'utf8');
+  renameSync(`${sectionPath}.tmp`, sectionPath);
+};
+
+export const loadSectionCheckpoints = (workflowId: string): SectionCheckpoint[] => {
+  const dir = join(getCheckpointDir(workflowId), 'sections');
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  return readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => readJson<SectionCheckpoint>(join(dir, file)))
+    .filter((section): section is SectionCheckpoint => section !== null);
+};
+
+// Finds the checkpoint for a planned section, ignoring it if the outline has since changed
+export const findSectionCheckpoint = (
+  checkpoints: SectionCheckpoint[],
+  chapterNumber: number,
+  sectionIndex: number,
+  title: string,
+): SectionCheckpoint | undefined =>
+  checkpoints.find(section =>
+    section.chapterNumber === chapterNumber &&
+    section.sectionIndex === sectionIndex &&
+    section.title === title
+  );
+
+// Tallies how much of the planned outline is already covered by saved sections
+export const summarizeSavedContent = (
+  chapters: PlannedChapter[],
+  checkpoints: SectionCheckpoint[],
+): { sections: number; words: number } => {
+  const summary = { sections: 0, words: 0 };
+
+  for (const chapter of chapters) {
+    const savedSections = chapter.sections
+      .map((title, sectionIndex) => findSectionCheckpoint(checkpoints, chapter.number, sectionIndex, title))
+      .filter((section): section is SectionCheckpoint => section !== undefined);
+
+    summary.sections += savedSections.length;
+    summary.words += savedSections.reduce((sum, section) => sum + section.wordCount, 0);
+  }
+
+  return summary;
+};
+
+// Copies only the outline and written sections into a resumed run. Review,
+// history and back matter belong to the run that produced them and are rebuilt
+// from the resumed content.
+export const copyCheckpoints = (fromWorkflowId: string, toWorkflowId: string): boolean => {
+  const fromDir = getCheckpointDir(fromWorkflowId);
+  if (!existsSync(fromDir)) {
+    return false;
+  }
+
+  const toDir = getCheckpointDir(toWorkflowId);
+  mkdirSync(toDir, { recursive: true });
+  for (const name of ['outline.json', 'sections']) {
+    if (existsSync(join(fromDir, name))) {
+      cpSync(join(fromDir, name), join(toDir, name), { recursive: true });
+    }
+  }
+  return true;
+};
+
+export const saveIndexTerms = (workflowId: string, terms: IndexTerm[]): void => {
+  const dir = getCheckpointDir(workflowId);
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(join(dir, 'index.json'), JSON.stringify(terms, null, 2), 'utf8');
+};
+
+// Null when no index terms have been picked for the run yet
+export const loadIndexTerms = (workflowId: string): IndexTerm[] | null =>
+  readJson<IndexTerm[]>(join(getCheckpointDir(workflowId), 'index.json'));
@@ -1,6 +1,7 @@
 import { createTool } from "@mastra/core/tools";
 import type { IMastraLogger } from "@mastra/core/logger";
 import { z } from "zod";
+import { reportRateLimit, waitForRateLimit } from "../scheduling/aiRequestScheduler";
 
 interface AIRequestConfig {
   provider: 'openrouter' | 'ollama';
@@ -58,6 +59,9 @@ const callOpenRouter = async (config: AIRequestConfig, logger?: IMastraLogger) =
     try {
       logger?.info("🔄 [AIService] OpenRouter attempt", { attempt, maxRetries, model: config.model });
 
+      // Respect a rate-limit pause reported by any other caller
+      await waitForRateLimit();
+
       const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
         method: "POST",
         headers: {
@@ -79,14 +83,18 @@ const callOpenRouter = async (config: AIRequestConfig, logger?: IMastraLogger) =
         
         // Handle specific error types
         if (response.status === 429) {
-          // Rate limit - wait longer before retry
-          const waitTime = Math.min(2000 * Math.pow(2, attempt - 1), 30000);
+          // Rate limit - pause every scheduled AI request, honouring Retry-After when given
+          const retryAfterSeconds = Number(response.headers.get('retry-after'));
+          const waitTime = retryAfterSeconds > 0
+            ? Math.min(retryAfterSeconds * 1000, 60000)
+            : Math.min(2000 * Math.pow(2, attempt - 1), 30000);
           logger?.warn("⏳ [AIService] Rate limited, waiting before retry", { 
             waitTime, 
             attempt, 
             model: config.model 
           });
-          await new Promise(resolve => setTimeout(resolve, waitTime));
+          reportRateLimit(waitTime);
+          await waitForRateLimit();
           continue;
         } else if (response.status === 503 || response.status === 502) {
           // Service unavailable - shorter wait before retry
@@ -2,12 +2,17 @@ import { createTool } from "@mastra/core/tools";
 import type { IMastraLogger } from "@mastra/core/logger";
 import { z } from "zod";
 import { writingAgent } from "../agents/writingAgent";
+import { aiRequestLimiter, isRateLimitError, RATE_LIMIT_BACKOFF_MS, reportRateLimit } from "../scheduling/aiRequestScheduler";
 
 interface ContentChunk {
   sectionTitle: string;
   content: string;
   wordCount: number;
   chunkIndex: number;
+  targetWords: number;
+  lengthAdjustments: number;
+  // Signed percentage the final section is off its target
+  lengthDeviation: number;
 }
 
 interface ChunkGenerationConfig {
@@ -18,8 +23,120 @@ interface ChunkGenerationConfig {
   targetWordsPerSection: number;
   context: string;
   retryAttempts?: number;
+  lengthTolerance?: number;
+  maxLengthAdjustments?: number;
 }
 
+const parseNonNegativeNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = value ? parseFloat(value) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// Fraction of the target a section may be off by before it is extended or condensed
+const DEFAULT_LENGTH_TOLERANCE = parseNonNegativeNumber(process.env.CONTENT_LENGTH_TOLERANCE, 0.15);
+const DEFAULT_MAX_LENGTH_ADJUSTMENTS = Math.floor(parseNonNegativeNumber(process.env.CONTENT_MAX_LENGTH_ADJUSTMENTS, 2));
+
+const countWords = (text: string): number =>
+  text.trim().split(/\s+/).filter(Boolean).length;
+
+const getLengthDeviation = (wordCount: number, targetWords: number): number =>
+  targetWords > 0 ? Math.round(((wordCount - targetWords) / targetWords) * 1000) / 10 : 0;
+
+const buildLengthAdjustmentPrompt = (
+  sectionTitle: string,
+  content: string,
+  wordCount: number,
+  targetWords: number,
+): string => {
+  const instructions = wordCount < targetWords
+    ? `It is too short. Expand it to about ${targetWords} words by deepening the explanations, adding worked examples, analogies and practical tips. Do not pad with repetition or filler.`
+    : `It is too long. Condense it to about ${targetWords} words by tightening the prose and removing repetition, while keeping every key concept, example and "Key Points" callout.`;
+
+  return `Here is the section "${sectionTitle}" you wrote (${wordCount} words):
+
+---
+${content}
+---
+
+${instructions}
+
+Keep the same friendly "Idiot's Guide" style, structure and formatting. Return the complete revised section only, with no commentary.`;
+};
+
+/**
+ * Asks the writing agent to extend or condense a section until it lands within
+ * the tolerance of its target, keeping whichever version is closest when the
+ * attempts run out. Adjustment failures never fail the section itself.
+ */
+const enforceSectionLength = async ({
+  config,
+  sectionIndex,
+  content,
+  threadId,
+  logger,
+}: {
+  config: ChunkGenerationConfig;
+  sectionIndex: number;
+  content: string;
+  threadId: string;
+  logger?: IMastraLogger;
+}): Promise<{ content: string; wordCount: number; adjustments: number }> => {
+  const sectionTitle = config.sectionTitles[sectionIndex];
+  const targetWords = config.targetWordsPerSection;
+  const tolerance = config.lengthTolerance ?? DEFAULT_LENGTH_TOLERANCE;
+  const maxAdjustments = config.maxLengthAdjustments ?? DEFAULT_MAX_LENGTH_ADJUSTMENTS;
+  const allowedDeviation = Math.max(50, Math.round(targetWords * tolerance));
+
+  let best = { content, wordCount: countWords(content) };
+  let adjustments = 0;
+
+  while (adjustments < maxAdjustments && Math.abs(best.wordCount - targetWords) > allowedDeviation) {
+    adjustments++;
+    logger?.info("📏 [ChunkedGeneration] Adjusting section length", {
+      sectionTitle,
+      adjustment: adjustments,
+      wordCount: best.wordCount,
+      targetWords,
+      direction: best.wordCount < targetWords ? 'extend' : 'condense',
+    });
+
+    try {
+      const { text: revised } = await aiRequestLimiter(() => writingAgent.generate([
+        { role: "user", content: buildLengthAdjustmentPrompt(sectionTitle, best.content, best.wordCount, targetWords) },
+      ], {
+        resourceId: "content-generation",
+        threadId,
+        maxSteps: 5,
+      }));
+
+      const revisedWordCount = countWords(revised);
+      // A revision that moves further from the target is discarded
+      if (Math.abs(revisedWordCount - targetWords) < Math.abs(best.wordCount - targetWords)) {
+        best = { content: revised, wordCount: revisedWordCount };
+      } else {
+        logger?.warn("⚠️ [ChunkedGeneration] Length adjustment did not help", {
+          sectionTitle,
+          wordCount: best.wordCount,
+          revisedWordCount,
+          targetWords,
+        });
+      }
+    } catch (error) {
+      logger?.warn("⚠️ [ChunkedGeneration] Length adjustment failed, keeping current content", {
+        sectionTitle,
+        adjustment: adjustments,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      if (isRateLimitError(error)) {
+        reportRateLimit(RATE_LIMIT_BACKOFF_MS);
+      }
+      break;
+    }
+  }
+
+  return { ...best, adjustments };
+};
+
 const generateContentChunk = async ({
   config,
   sectionIndex,
@@ -70,35 +187,60 @@ INSTRUCTIONS:
 - Use clear examples and analogies
 - Include practical tips and "Key Points" where appropriate
 - If this is the first section, include a brief chapter introduction
-- If this is the last section, include a chapter summary
+- If this is the last section, close the chapter naturally without a recap; the chapter summary and learning objectives are added around the chapter separately
 - Build logically on previous sections but make this section standalone
 - Use formatting like headings, bullet points, and emphasis where helpful
 
 Write the content for "${sectionTitle}" now:`;
 
+      const threadId = `writing-${workflowId || Date.now()}-${chapterNumber}-${sectionIndex}`;
+
       // Use the actual writing agent instead of simulation
-      const { text: response } = await writingAgent.generate([
+      const { text: response } = await aiRequestLimiter(() => writingAgent.generate([
         { role: "user", content: prompt },
       ], {
         resourceId: "content-generation",
-        threadId: `writing-${workflowId || Date.now()}-${chapterNumber}-${sectionIndex}`,
+        threadId,
         maxSteps: 5,
-      });
+      }));
       
-      const wordCount = response.split(/\s+/).length;
+      const draftWordCount = countWords(response);
       
       logger?.info("✅ [ChunkedGeneration] Content chunk generated successfully", {
         sectionTitle,
-        wordCount,
+        wordCount: draftWordCount,
         targetWords: targetWordsPerSection,
-        withinRange: Math.abs(wordCount - targetWordsPerSection) <= 100
+        withinRange: Math.abs(draftWordCount - targetWordsPerSection) <= 100
+      });
+
+      const { content, wordCount, adjustments } = await enforceSectionLength({
+        config,
+        sectionIndex,
+        content: response,
+        threadId,
+        logger,
       });
+      const lengthDeviation = getLengthDeviation(wordCount, targetWordsPerSection);
+
+      if (adjustments > 0) {
+        logger?.info("📏 [ChunkedGeneration] Section length adjusted", {
+          sectionTitle,
+          draftWordCount,
+          wordCount,
+          targetWords: targetWordsPerSection,
+          adjustments,
+          lengthDeviation,
+        });
+      }
 
       return {
         sectionTitle,
-        content: response,
+        content,
         wordCount,
         chunkIndex: sectionIndex,
+        targetWords: targetWordsPerSection,
+        lengthAdjustments: adjustments,
+        lengthDeviation,
       };
 
     } catch (error) {
@@ -115,7 +257,12 @@ Write the content for "${sectionTitle}" now:`;
       // Exponential backoff
       const backoffMs = Math.min(1000 * Math.pow(2, attempt - 1), 30000);
       logger?.info("⏳ [ChunkedGeneration] Backing off before retry", { backoffMs });
-      await new Promise(resolve => setTimeout(resolve, backoffMs));
+      if (isRateLimitError(error)) {
+        // Slow down every concurrent section, not just this one; the limiter waits it out
+        reportRateLimit(backoffMs);
+      } else {
+        await new Promise(resolve => setTimeout(resolve, backoffMs));
+      }
     }
   }
 
@@ -136,12 +283,17 @@ export const chunkedContentGenerationTool = createTool({
     sectionIndex: z.number().describe("Index of the section to generate (0-based)"),
     retryAttempts: z.number().default(3).describe("Number of retry attempts for failed generations"),
     workflowId: z.string().optional().describe("Workflow ID for thread management"),
+    lengthTolerance: z.number().optional().describe("Fraction of the target a section may deviate by before it is extended or condensed (defaults to CONTENT_LENGTH_TOLERANCE or 0.15)"),
+    maxLengthAdjustments: z.number().optional().describe("Maximum extend/condense passes per section (defaults to CONTENT_MAX_LENGTH_ADJUSTMENTS or 2)"),
   }),
   outputSchema: z.object({
     sectionTitle: z.string(),
     content: z.string(),
     wordCount: z.number(),
     chunkIndex: z.number(),
+    targetWords: z.number(),
+    lengthAdjustments: z.number(),
+    lengthDeviation: z.number().describe("Signed percentage the final word count is off its target"),
     generatedAt: z.string(),
   }),
   execute: async ({ context, mastra }) => {
@@ -161,6 +313,8 @@ export const chunkedContentGenerationTool = createTool({
       targetWordsPerSection: context.targetWordsPerSection,
       context: context.context,
       retryAttempts: context.retryAttempts,
+      lengthTolerance: context.lengthTolerance,
+      maxLengthAdjustments: context.maxLengthAdjustments,
     };
 
     const result = await generateContentChunk({
@@ -0,0 +1,447 @@
+import { createTool } from "@mastra/core/tools";
+import type { IMastraLogger } from "@mastra/core/logger";
+import { z } from "zod";
+import { writeFileSync, mkdirSync } from "fs";
+import { join } from "path";
+import { escapeHtml, parseMarkdown, renderInlineMarkdown, type MarkdownBlock, type TableAlignment } from "../export/markdown";
+import { createZipArchive, type ZipEntry } from "../export/zipArchive";
+import { chapterHeading } from "../export/chapterLabels";
+import { bookIndexEntrySchema, withIndexAppendix } from "../export/bookIndex";
+
+interface Section {
+  title: string;
+  content: string;
+}
+
+interface Chapter {
+  title: string;
+  sections: Section[];
+  appendix?: boolean;
+}
+
+interface DocxBook {
+  title: string;
+  subtitle?: string;
+  author: string;
+  language: string;
+  chapters: Chapter[];
+}
+
+// Relationships and list instances collected while the document body is written
+interface DocxContext {
+  hyperlinks: string[];
+  orderedLists: number[];
+  bookmarks: number;
+}
+
+interface ParagraphProperties {
+  style?: string;
+  numbering?: { numId: number; level: number };
+  indentLevel?: number;
+  align?: TableAlignment;
+}
+
+const WORD_NAMESPACES = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+// numId 1 is shared by every bullet list; each ordered list gets its own numId so it restarts
+const BULLET_NUM_ID = 1;
+const FIRST_ORDERED_NUM_ID = 2;
+const LIST_INDENT = 720;
+const LIST_HANGING = 360;
+
+const EXTERNAL_LINK_PATTERN = /^(?:https?:|mailto:)/i;
+
+// Word bookmark names are limited to 40 letters, digits and underscores
+const bookmarkName = (id: string): string => id.replace(/[^A-Za-z0-9_]/g, '_').slice(0, 40);
+
+const decodeEntities = (text: string): string =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const textRun = (text: string, styles: string[] = []): string =>
+  `<w:r>${styles.length > 0 ? `<w:rPr>${styles.join('')}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeHtml(text)}</w:t></w:r>`;
+
+/**
+ * Converts inline Markdown to Word runs. The inline renderer's HTML is reused
+ * rather than parsing Markdown twice; it only ever emits the handful of tags
+ * handled here.
+ */
+const inlineRuns = (markdown: string, context: DocxContext): string => {
+  const html = renderInlineMarkdown(markdown);
+  const active = { strong: 0, em: 0, del: 0, code: 0 };
+  const runs: string[] = [];
+  let link: { target: string; runs: string[] } | undefined;
+
+  for (const token of html.split(/(<[^>]+>)/).filter(Boolean)) {
+    if (token === '<br />') {
+      (link?.runs ?? runs).push('<w:r><w:br/></w:r>');
+      continue;
+    }
+
+    const tag = token.match(/^<(\/?)(strong|em|del|code|a|span)(?: (?:href|id)="([^"]*)")?>$/);
+    if (tag) {
+      const [, closing, name, attribute] = tag;
+      if (name === 'span') {
+        // Anchors become bookmarks that in-book links jump to
+        if (!closing) {
+          const bookmarkId = ++context.bookmarks;
+          (link?.runs ?? runs).push(`<w:bookmarkStart w:id="${bookmarkId}" w:name="${bookmarkName(decodeEntities(attribute ?? ''))}"/><w:bookmarkEnd w:id="${bookmarkId}"/>`);
+        }
+      } else if (name === 'a') {
+        if (!closing) {
+          link = { target: decodeEntities(attribute ?? ''), runs: [] };
+        } else if (link) {
+          if (EXTERNAL_LINK_PATTERN.test(link.target)) {
+            const relationshipId = `rIdLink${context.hyperlinks.push(link.target)}`;
+            runs.push(`<w:hyperlink r:id="${relationshipId}">${link.runs.join('')}</w:hyperlink>`);
+          } else if (link.target.startsWith('#') && link.target.length > 1) {
+            runs.push(`<w:hyperlink w:anchor="${bookmarkName(link.target.slice(1))}">${link.runs.join('')}</w:hyperlink>`);
+          } else {
+            // Relative links have nowhere to point in a standalone document
+            runs.push(...link.runs);
+          }
+          link = undefined;
+        }
+      } else {
+        active[name as keyof typeof active] += closing ? -1 : 1;
+      }
+      continue;
+    }
+
+    const styles = [
+      link && (EXTERNAL_LINK_PATTERN.test(link.target) || link.target.startsWith('#')) ? '<w:rStyle w:val="Hyperlink"/>' : active.code > 0 ? '<w:rStyle w:val="CodeChar"/>' : '',
+      active.strong > 0 ? '<w:b/>' : '',
+      active.em > 0 ? '<w:i/>' : '',
+      active.del > 0 ? '<w:strike/>' : '',
+    ].filter(Boolean);
+    (link?.runs ?? runs).push(textRun(decodeEntities(token), styles));
+  }
+
+  return runs.join('');
+};
+
+// pPr children have a fixed order in the schema, so they're always written in this sequence
+const paragraph = (runs: string, properties: ParagraphProperties = {}): string => {
+  const pPr = [
+    properties.style ? `<w:pStyle w:val="${properties.style}"/>` : '',
+    properties.numbering ? `<w:numPr><w:ilvl w:val="${properties.numbering.level}"/><w:numId w:val="${properties.numbering.numId}"/></w:numPr>` : '',
+    properties.indentLevel !== undefined ? `<w:ind w:left="${LIST_INDENT * (properties.indentLevel + 1)}"/>` : '',
+    properties.align ? `<w:jc w:val="${properties.align === 'center' ? 'center' : properties.align === 'right' ? 'right' : 'left'}"/>` : '',
+  ].join('');
+  return `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}${runs}</w:p>`;
+};
+
+const renderTable = (block: Extract<MarkdownBlock, { type: 'table' }>, context: DocxContext): string => {
+  const cell = (content: string, column: number, header: boolean): string =>
+    `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr>${paragraph(
+      inlineRuns(content, context),
+      { style: header ? 'TableHeader' : 'TableText', align: block.alignments[column] },
+    )}</w:tc>`;
+  const row = (cells: string[], header: boolean): string =>
+    `<w:tr>${header ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${block.header.map((_heading, column) => cell(cells[column] ?? '', column, header)).join('')}</w:tr>`;
+
+  return [
+    '<w:tbl>',
+    '<w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr>',
+    `<w:tblGrid>${block.header.map(() => '<w:gridCol/>').join('')}</w:tblGrid>`,
+    row(block.header, true),
+    ...block.rows.map(cells => row(cells, false)),
+    '</w:tbl>',
+    // Word merges adjacent tables unless a paragraph separates them
+    paragraph(''),
+  ].join('');
+};
+
+/**
+ * Renders Markdown blocks as WordprocessingML. Headings are shifted by
+ * `headingOffset` so content headings nest under the chapter and section
+ * headings; `listLevel` and `style` carry list nesting and quote styling down
+ * into child blocks.
+ */
+const renderBlocks = (
+  blocks: MarkdownBlock[],
+  context: DocxContext,
+  options: { headingOffset: number; listLevel?: number; style?: string },
+): string =>
+  blocks.map(block => {
+    const indentLevel = options.listLevel;
+    switch (block.type) {
+      case 'heading':
+        return paragraph(inlineRuns(block.text, context), { style: `Heading${Math.min(9, block.level + options.headingOffset)}` });
+      case 'paragraph':
+        return paragraph(
+          block.lines.map(line => inlineRuns(line, context)).join('<w:r><w:br/></w:r>'),
+          { style: options.style, indentLevel },
+        );
+      case 'code':
+        return paragraph(
+          block.code.replace(/\t/g, '    ').split('\n').map(line => textRun(line)).join('<w:r><w:br/></w:r>'),
+          { style: 'Code', indentLevel },
+        );
+      case 'rule':
+        return paragraph('', { style: 'HorizontalRule' });
+      case 'blockquote':
+        return renderBlocks(block.children, context, { ...options, style: 'Quote' });
+      case 'table':
+        return renderTable(block, context);
+      case 'list': {
+        const level = options.listLevel === undefined ? 0 : Math.min(8, options.listLevel + 1);
+        const numId = block.ordered ? FIRST_ORDERED_NUM_ID + context.orderedLists.push(block.start) - 1 : BULLET_NUM_ID;
+        return block.items.map(item => {
+          const [first, ...rest] = item;
+          // The item's first paragraph carries the bullet or number; the rest are indented to match
+          const marker = first?.type === 'paragraph'
+            ? paragraph(first.lines.map(line => inlineRuns(line, context)).join('<w:r><w:br/></w:r>'), {
+              style: options.style ?? 'ListParagraph',
+              numbering: { numId, level },
+            })
+            : paragraph('', { style: 'ListParagraph', numbering: { numId, level } });
+          const remaining = first?.type === 'paragraph' ? rest : item;
+          return marker + renderBlocks(remaining, context, { ...options, listLevel: level });
+        }).join('');
+      }
+    }
+  }).join('');
+
+const renderDocument = (book: DocxBook, context: DocxContext): string => {
+  const body = [
+    paragraph(textRun(book.title), { style: 'Title' }),
+    book.subtitle ? paragraph(textRun(book.subtitle), { style: 'Subtitle' }) : '',
+    paragraph(textRun(`by ${book.author}`), { style: 'Author' }),
+    paragraph('<w:r><w:br w:type="page"/></w:r>'),
+    paragraph(textRun('Table of Contents'), { style: 'TOCHeading' }),
+    // A TOC field Word fills in when it updates fields on open (see settings.xml)
+    paragraph([
+      '<w:r><w:fldChar w:fldCharType="begin" w:dirty="true"/></w:r>',
+      '<w:r><w:instrText xml:space="preserve"> TOC \\o "1-2" \\h \\z \\u </w:instrText></w:r>',
+      '<w:r><w:fldChar w:fldCharType="separate"/></w:r>',
+      textRun('Update fields to build the table of contents.'),
+      '<w:r><w:fldChar w:fldCharType="end"/></w:r>',
+    ].join('')),
+    ...book.chapters.map((chapter, chapterIndex) => [
+      paragraph(textRun(chapterHeading(book.chapters, chapterIndex)), { style: 'Heading1' }),
+      ...chapter.sections.map(section => [
+        paragraph(textRun(section.title), { style: 'Heading2' }),
+        renderBlocks(parseMarkdown(section.content), context, { headingOffset: 1 }),
+      ].join('')),
+    ].join('')),
+  ].join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document ${WORD_NAMESPACES}>
+<w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="709" w:footer="709" w:gutter="0"/></w:sectPr></w:body>
+</w:document>
+`;
+};
+
+const headingStyle = (level: number): string =>
+  `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="9"/><w:qFormat/>` +
+  `<w:pPr><w:keepNext/>${level === 1 ? '<w:pageBreakBefore/>' : ''}<w:spacing w:before="${level <= 2 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>` +
+  `<w:rPr><w:b/><w:color w:val="2C3E50"/><w:sz w:val="${Math.max(22, 40 - (level - 1) * 4)}"/></w:rPr></w:style>`;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles ${WORD_NAMESPACES}>
+<w:docDefaults>
+<w:rPrDefault><w:rPr><w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:eastAsia="Times New Roman" w:cs="Times New Roman"/><w:sz w:val="24"/><w:szCs w:val="24"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="character" w:default="1" w:styleId="DefaultParagraphFont"><w:name w:val="Default Paragraph Font"/><w:uiPriority w:val="1"/><w:semiHidden/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Subtitle"/><w:qFormat/><w:pPr><w:spacing w:before="2400" w:after="240"/><w:jc w:val="center"/></w:pPr><w:rPr><w:b/><w:color w:val="2C3E50"/><w:sz w:val="56"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:jc w:val="center"/></w:pPr><w:rPr><w:color w:val="7F8C8D"/><w:sz w:val="32"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Author"><w:name w:val="Author"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:before="1200"/><w:jc w:val="center"/></w:pPr><w:rPr><w:color w:val="34495E"/><w:sz w:val="28"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="TOCHeading"><w:name w:val="TOC Heading"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:color w:val="2C3E50"/><w:sz w:val="36"/></w:rPr></w:style>
+${[1, 2, 3, 4, 5, 6, 7, 8, 9].map(headingStyle).join('\n')}
+<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr><w:pBdr><w:left w:val="single" w:sz="24" w:space="8" w:color="3498DB"/></w:pBdr><w:ind w:left="567"/></w:pPr><w:rPr><w:i/><w:color w:val="555555"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:keepLines/><w:pBdr><w:top w:val="single" w:sz="4" w:space="4" w:color="D0D7DE"/><w:left w:val="single" w:sz="4" w:space="4" w:color="D0D7DE"/><w:bottom w:val="single" w:sz="4" w:space="4" w:color="D0D7DE"/><w:right w:val="single" w:sz="4" w:space="4" w:color="D0D7DE"/></w:pBdr><w:shd w:val="clear" w:color="auto" w:fill="F6F8FA"/><w:spacing w:after="160" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/><w:sz w:val="18"/></w:rPr></w:style>
+<w:style w:type="character" w:styleId="CodeChar"><w:name w:val="Code Char"/><w:basedOn w:val="DefaultParagraphFont"/><w:rPr><w:rFonts w:ascii="Courier New" w:hAnsi="Courier New" w:cs="Courier New"/><w:sz w:val="20"/><w:shd w:val="clear" w:color="auto" w:fill="F4F4F4"/></w:rPr></w:style>
+<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:basedOn w:val="DefaultParagraphFont"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="HorizontalRule"><w:name w:val="Horizontal Rule"/><w:basedOn w:val="Normal"/><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="CCCCCC"/></w:pBdr></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="TableText"><w:name w:val="Table Text"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0"/></w:pPr><w:rPr><w:sz w:val="20"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="TableHeader"><w:name w:val="Table Header"/><w:basedOn w:val="TableText"/><w:rPr><w:b/></w:rPr></w:style>
+<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders><w:top w:val="single" w:sz="4" w:space="0" w:color="CCCCCC"/><w:left w:val="single" w:sz="4" w:space="0" w:color="CCCCCC"/><w:bottom w:val="single" w:sz="4" w:space="0" w:color="CCCCCC"/><w:right w:val="single" w:sz="4" w:space="0" w:color="CCCCCC"/><w:insideH w:val="single" w:sz="4" w:space="0" w:color="CCCCCC"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="CCCCCC"/></w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+</w:styles>
+`;
+
+const BULLET_SYMBOLS = ['•', '◦', '▪'];
+const ORDERED_FORMATS = ['decimal', 'lowerLetter', 'lowerRoman'];
+
+const numberingLevels = (ordered: boolean): string =>
+  Array.from({ length: 9 }, (_value, level) => {
+    const format = ordered ? ORDERED_FORMATS[level % 3] : 'bullet';
+    const text = ordered ? `%${level + 1}.` : BULLET_SYMBOLS[level % 3];
+    return `<w:lvl w:ilvl="${level}"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>` +
+      `<w:pPr><w:ind w:left="${LIST_INDENT * (level + 1)}" w:hanging="${LIST_HANGING}"/></w:pPr></w:lvl>`;
+  }).join('');
+
+const renderNumbering = (context: DocxContext): string => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering ${WORD_NAMESPACES}>
+<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="hybridMultilevel"/>${numberingLevels(false)}</w:abstractNum>
+<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="hybridMultilevel"/>${numberingLevels(true)}</w:abstractNum>
+<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>
+${context.orderedLists.map((start, index) =>
+    `<w:num w:numId="${FIRST_ORDERED_NUM_ID + index}"><w:abstractNumId w:val="1"/>${Array.from({ length: 9 }, (_value, level) =>
+      `<w:lvlOverride w:ilvl="${level}"><w:startOverride w:val="${level === 0 ? start : 1}"/></w:lvlOverride>`).join('')}</w:num>`).join('\n')}
+</w:numbering>
+`;
+
+// Opens with track changes on, since the file exists for copy editing
+const SETTINGS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:settings ${WORD_NAMESPACES}>
+<w:trackRevisions/>
+<w:defaultTabStop w:val="720"/>
+<w:updateFields w:val="true"/>
+<w:compat><w:compatSetting w:name="compatibilityMode" w:uri="http://schemas.microsoft.com/office/word" w:val="15"/></w:compat>
+</w:settings>
+`;
+
+const renderDocumentRelationships = (context: DocxContext): string => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+<Relationship Id="rIdNumbering" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>
+<Relationship Id="rIdSettings" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/settings" Target="settings.xml"/>
+${context.hyperlinks.map((target, index) =>
+    `<Relationship Id="rIdLink${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="${escapeHtml(target)}" TargetMode="External"/>`).join('\n')}
+</Relationships>
+`;
+
+const PACKAGE_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>
+`;
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+<Override PartName="/word/settings.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>
+`;
+
+const renderCoreProperties = (book: DocxBook, generatedAt: Date): string => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeHtml(book.title)}</dc:title>
+${book.subtitle ? `<dc:subject>${escapeHtml(book.subtitle)}</dc:subject>` : ''}
+<dc:creator>${escapeHtml(book.author)}</dc:creator>
+<dc:language>${escapeHtml(book.language)}</dc:language>
+<dcterms:created xsi:type="dcterms:W3CDTF">${generatedAt.toISOString().replace(/\.\d{3}Z$/, 'Z')}</dcterms:created>
+</cp:coreProperties>
+`;
+
+const generateDOCX = async ({
+  book,
+  logger,
+}: {
+  book: DocxBook;
+  logger?: IMastraLogger;
+}) => {
+  logger?.info("📝 [DOCXGeneration] Starting DOCX generation", {
+    title: book.title,
+    chapterCount: book.chapters.length,
+  });
+
+  try {
+    const outputDir = join(process.cwd(), 'generated_books');
+    mkdirSync(outputDir, { recursive: true });
+
+    const generatedAt = new Date();
+    const context: DocxContext = { hyperlinks: [], orderedLists: [], bookmarks: 0 };
+    // The body is rendered first: it decides which hyperlinks and list instances the other parts declare
+    const document = renderDocument(book, context);
+
+    const entries: ZipEntry[] = [
+      { name: '[Content_Types].xml', data: CONTENT_TYPES },
+      { name: '_rels/.rels', data: PACKAGE_RELATIONSHIPS },
+      { name: 'docProps/core.xml', data: renderCoreProperties(book, generatedAt) },
+      { name: 'word/document.xml', data: document },
+      { name: 'word/_rels/document.xml.rels', data: renderDocumentRelationships(context) },
+      { name: 'word/styles.xml', data: STYLES_XML },
+      { name: 'word/numbering.xml', data: renderNumbering(context) },
+      { name: 'word/settings.xml', data: SETTINGS_XML },
+    ];
+
+    const archive = createZipArchive(entries, generatedAt);
+    const sanitizedTitle = book.title.replace(/[^a-zA-Z0-9]/g, '_');
+    const timestamp = generatedAt.toISOString().replace(/[:.]/g, '-');
+    const docxPath = join(outputDir, `${sanitizedTitle}_${timestamp}.docx`);
+    writeFileSync(docxPath, archive);
+
+    logger?.info("✅ [DOCXGeneration] DOCX written", {
+      docxPath,
+      fileSize: archive.length,
+    });
+
+    return {
+      title: book.title,
+      format: 'docx',
+      path: docxPath,
+      fileSize: archive.length,
+      chapterCount: book.chapters.length,
+      generatedAt: generatedAt.toISOString(),
+    };
+  } catch (error) {
+    logger?.error("❌ [DOCXGeneration] Error generating DOCX", {
+      title: book.title,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    throw new Error(`DOCX generation failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+export const docxGenerationTool = createTool({
+  id: "docx-generation-tool",
+  description: `Generates a Word (DOCX) manuscript with styled headings, lists, tables and code blocks for copy editing with track changes`,
+  inputSchema: z.object({
+    title: z.string().describe("The main title of the book"),
+    subtitle: z.string().optional().describe("Optional subtitle for the book"),
+    author: z.string().describe("The author name to display"),
+    language: z.string().default('en').describe("BCP 47 language tag of the content"),
+    chapters: z.array(z.object({
+      title: z.string().describe("Chapter title"),
+      sections: z.array(z.object({
+        title: z.string().describe("Section title"),
+        content: z.string().describe("Section content in Markdown"),
+      })).describe("Sections in reading order"),
+      appendix: z.boolean().optional().describe("Back matter such as an answer key; lettered as an appendix instead of numbered"),
+    })).describe("Array of chapters with their sections"),
+    index: z.array(bookIndexEntrySchema).optional().describe("Back-of-book index entries pointing at [text]{#id} anchors in the chapters; added as the last appendix, linked by section number"),
+  }),
+  outputSchema: z.object({
+    title: z.string(),
+    format: z.string(),
+    path: z.string(),
+    fileSize: z.number(),
+    chapterCount: z.number(),
+    generatedAt: z.string(),
+  }),
+  execute: async ({ context, mastra }) => {
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [DOCXGeneration] Starting execution", {
+      title: context.title,
+      chapterCount: context.chapters.length,
+    });
+
+    return generateDOCX({
+      book: {
+        title: context.title,
+        subtitle: context.subtitle,
+        author: context.author,
+        language: context.language || 'en',
+        chapters: withIndexAppendix(context.chapters, context.index),
+      },
+      logger,
+    });
+  },
+});
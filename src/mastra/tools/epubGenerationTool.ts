@@ -0,0 +1,326 @@
+import { createTool } from "@mastra/core/tools";
+import type { IMastraLogger } from "@mastra/core/logger";
+import { z } from "zod";
+import { randomUUID } from "crypto";
+import { writeFileSync, mkdirSync } from "fs";
+import { join } from "path";
+import { escapeHtml, renderMarkdown } from "../export/markdown";
+import { CODE_BLOCK_CSS, renderCodeBlock } from "../export/codeHighlight";
+import { chapterHeading } from "../export/chapterLabels";
+import { bookIndexEntrySchema, withIndexAppendix } from "../export/bookIndex";
+import { linkResolver, locateAnchors } from "../export/anchorLocations";
+import { createZipArchive, type ZipEntry } from "../export/zipArchive";
+
+interface Section {
+  title: string;
+  content: string;
+}
+
+interface Chapter {
+  title: string;
+  sections: Section[];
+  appendix?: boolean;
+}
+
+interface EpubBook {
+  title: string;
+  subtitle?: string;
+  author: string;
+  language: string;
+  chapters: Chapter[];
+  codeLineNumbers?: boolean;
+}
+
+const EPUB_STYLES = `body {
+  font-family: Georgia, "Times New Roman", serif;
+  line-height: 1.5;
+  margin: 0 5%;
+}
+h1 {
+  font-size: 1.8em;
+  margin: 1.5em 0 1em;
+  border-bottom: 2px solid #3498db;
+  padding-bottom: 0.3em;
+}
+h2 {
+  font-size: 1.3em;
+  margin: 1.5em 0 0.6em;
+}
+p {
+  margin: 0 0 0.8em;
+  text-align: justify;
+}
+.title-page {
+  text-align: center;
+  margin-top: 30%;
+}
+.book-subtitle {
+  color: #7f8c8d;
+}
+.book-author {
+  margin-top: 3em;
+}
+h3, h4, h5, h6 {
+  margin: 1.2em 0 0.5em;
+}
+blockquote {
+  margin: 1em 0;
+  padding: 0.3em 1em;
+  border-left: 4px solid #3498db;
+  color: #555;
+}
+table {
+  border-collapse: collapse;
+  margin: 1em 0;
+}
+th, td {
+  border: 1px solid #ccc;
+  padding: 0.3em 0.5em;
+}
+code {
+  font-family: "Courier New", monospace;
+  font-size: 0.9em;
+}
+nav ol {
+  list-style: none;
+  padding-left: 1em;
+}
+${CODE_BLOCK_CSS}`;
+
+const chapterFileName = (chapterIndex: number): string => `chapter-${chapterIndex + 1}.xhtml`;
+
+const sectionId = (chapterIndex: number, sectionIndex: number): string =>
+  `section-${chapterIndex + 1}-${sectionIndex + 1}`;
+
+const xhtmlDocument = (title: string, language: string, body: string, extraNamespace = ''): string =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml"${extraNamespace} xml:lang="${language}" lang="${language}">
+<head>
+  <meta charset="UTF-8" />
+  <title>${escapeHtml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="styles.css" />
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+const renderChapter = (book: EpubBook, chapter: Chapter, chapterIndex: number, resolveLink: (href: string) => string): string =>
+  xhtmlDocument(chapter.title, book.language, `<section epub:type="${chapter.appendix ? 'appendix' : 'chapter'}">
+<h1>${escapeHtml(chapterHeading(book.chapters, chapterIndex))}</h1>
+${chapter.sections.map((section, sectionIndex) => `<section id="${sectionId(chapterIndex, sectionIndex)}">
+<h2>${escapeHtml(section.title)}</h2>
+${renderMarkdown(section.content, {
+    headingOffset: 1,
+    renderCodeBlock: (code, language, meta) => renderCodeBlock(code, language, meta, { lineNumbers: book.codeLineNumbers }),
+    resolveLink,
+  })}
+</section>`).join('\n')}
+</section>`, ' xmlns:epub="http://www.idpf.org/2007/ops"');
+
+const renderTitlePage = (book: EpubBook): string =>
+  xhtmlDocument(book.title, book.language, `<div class="title-page">
+<h1>${escapeHtml(book.title)}</h1>
+${book.subtitle ? `<p class="book-subtitle">${escapeHtml(book.subtitle)}</p>` : ''}
+<p class="book-author">by ${escapeHtml(book.author)}</p>
+</div>`);
+
+// EPUB 3 navigation document; readers build their table of contents from it
+const renderNav = (book: EpubBook): string =>
+  xhtmlDocument('Table of Contents', book.language, `<nav epub:type="toc" id="toc">
+<h1>Table of Contents</h1>
+<ol>
+${book.chapters.map((chapter, chapterIndex) => `<li><a href="${chapterFileName(chapterIndex)}">${escapeHtml(chapterHeading(book.chapters, chapterIndex))}</a>
+<ol>
+${chapter.sections.map((section, sectionIndex) =>
+    `<li><a href="${chapterFileName(chapterIndex)}#${sectionId(chapterIndex, sectionIndex)}">${escapeHtml(section.title)}</a></li>`).join('\n')}
+</ol>
+</li>`).join('\n')}
+</ol>
+</nav>`, ' xmlns:epub="http://www.idpf.org/2007/ops"');
+
+// EPUB 2 NCX, kept for older e-readers that ignore the navigation document
+const renderNcx = (book: EpubBook, identifier: string): string => {
+  let playOrder = 0;
+  const navPoint = (id: string, label: string, src: string, children = ''): string =>
+    `<navPoint id="${id}" playOrder="${++playOrder}">
+<navLabel><text>${escapeHtml(label)}</text></navLabel>
+<content src="${src}" />
+${children}</navPoint>`;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+<head>
+  <meta name="dtb:uid" content="${identifier}" />
+  <meta name="dtb:depth" content="2" />
+</head>
+<docTitle><text>${escapeHtml(book.title)}</text></docTitle>
+<navMap>
+${book.chapters.map((chapter, chapterIndex) => navPoint(
+    `chapter-${chapterIndex + 1}`,
+    chapterHeading(book.chapters, chapterIndex),
+    chapterFileName(chapterIndex),
+    chapter.sections.map((section, sectionIndex) => navPoint(
+      sectionId(chapterIndex, sectionIndex),
+      section.title,
+      `${chapterFileName(chapterIndex)}#${sectionId(chapterIndex, sectionIndex)}`,
+    )).join('\n') + '\n',
+  )).join('\n')}
+</navMap>
+</ncx>
+`;
+};
+
+const renderPackage = (book: EpubBook, identifier: string, generatedAt: Date): string => {
+  // dcterms:modified must be UTC without fractional seconds
+  const modified = generatedAt.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${book.language}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <dc:identifier id="book-id">${identifier}</dc:identifier>
+  <dc:title>${escapeHtml(book.title)}</dc:title>
+  <dc:creator>${escapeHtml(book.author)}</dc:creator>
+  <dc:language>${book.language}</dc:language>
+  <dc:date>${modified}</dc:date>
+  ${book.subtitle ? `<dc:description>${escapeHtml(book.subtitle)}</dc:description>` : ''}
+  <meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+  <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />
+  <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml" />
+  <item id="styles" href="styles.css" media-type="text/css" />
+  <item id="title-page" href="title.xhtml" media-type="application/xhtml+xml" />
+${book.chapters.map((_chapter, chapterIndex) =>
+    `  <item id="chapter-${chapterIndex + 1}" href="${chapterFileName(chapterIndex)}" media-type="application/xhtml+xml" />`).join('\n')}
+</manifest>
+<spine toc="ncx">
+  <itemref idref="title-page" />
+  <itemref idref="nav" />
+${book.chapters.map((_chapter, chapterIndex) => `  <itemref idref="chapter-${chapterIndex + 1}" />`).join('\n')}
+</spine>
+</package>
+`;
+};
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+  </rootfiles>
+</container>
+`;
+
+const generateEPUB = async ({
+  book,
+  logger,
+}: {
+  book: EpubBook;
+  logger?: IMastraLogger;
+}) => {
+  logger?.info("📱 [EPUBGeneration] Starting EPUB generation", {
+    title: book.title,
+    chapterCount: book.chapters.length,
+  });
+
+  try {
+    const outputDir = join(process.cwd(), 'generated_books');
+    mkdirSync(outputDir, { recursive: true });
+
+    const generatedAt = new Date();
+    const identifier = `urn:uuid:${randomUUID()}`;
+    const resolveLink = linkResolver(locateAnchors(book.chapters), location => chapterFileName(location.chapterIndex));
+
+    const entries: ZipEntry[] = [
+      // Must be the first entry and uncompressed so readers can sniff the format
+      { name: 'mimetype', data: 'application/epub+zip', store: true },
+      { name: 'META-INF/container.xml', data: CONTAINER_XML },
+      { name: 'OEBPS/content.opf', data: renderPackage(book, identifier, generatedAt) },
+      { name: 'OEBPS/nav.xhtml', data: renderNav(book) },
+      { name: 'OEBPS/toc.ncx', data: renderNcx(book, identifier) },
+      { name: 'OEBPS/styles.css', data: EPUB_STYLES },
+      { name: 'OEBPS/title.xhtml', data: renderTitlePage(book) },
+      ...book.chapters.map((chapter, chapterIndex) => ({
+        name: `OEBPS/${chapterFileName(chapterIndex)}`,
+        data: renderChapter(book, chapter, chapterIndex, resolveLink),
+      })),
+    ];
+
+    const archive = createZipArchive(entries, generatedAt);
+    const sanitizedTitle = book.title.replace(/[^a-zA-Z0-9]/g, '_');
+    const timestamp = generatedAt.toISOString().replace(/[:.]/g, '-');
+    const epubPath = join(outputDir, `${sanitizedTitle}_${timestamp}.epub`);
+    writeFileSync(epubPath, archive);
+
+    logger?.info("✅ [EPUBGeneration] EPUB written", {
+      epubPath,
+      fileSize: archive.length,
+    });
+
+    return {
+      title: book.title,
+      format: 'epub',
+      path: epubPath,
+      fileSize: archive.length,
+      chapterCount: book.chapters.length,
+      generatedAt: generatedAt.toISOString(),
+    };
+  } catch (error) {
+    logger?.error("❌ [EPUBGeneration] Error generating EPUB", {
+      title: book.title,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    throw new Error(`EPUB generation failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+export const epubGenerationTool = createTool({
+  id: "epub-generation-tool",
+  description: `Generates an EPUB 3 e-book with a navigable table of contents and one XHTML file per chapter`,
+  inputSchema: z.object({
+    title: z.string().describe("The main title of the book"),
+    subtitle: z.string().optional().describe("Optional subtitle for the book"),
+    author: z.string().describe("The author name to display"),
+    language: z.string().default('en').describe("BCP 47 language tag of the content"),
+    chapters: z.array(z.object({
+      title: z.string().describe("Chapter title"),
+      sections: z.array(z.object({
+        title: z.string().describe("Section title"),
+        content: z.string().describe("Section content in Markdown"),
+      })).describe("Sections in reading order"),
+      appendix: z.boolean().optional().describe("Back matter such as an answer key; lettered as an appendix instead of numbered"),
+    })).describe("Array of chapters with their sections"),
+    index: z.array(bookIndexEntrySchema).optional().describe("Back-of-book index entries pointing at [text]{#id} anchors in the chapters; added as the last appendix, linked by section number"),
+    codeLineNumbers: z.boolean().optional().describe("Number the lines of every code block"),
+  }),
+  outputSchema: z.object({
+    title: z.string(),
+    format: z.string(),
+    path: z.string(),
+    fileSize: z.number(),
+    chapterCount: z.number(),
+    generatedAt: z.string(),
+  }),
+  execute: async ({ context, mastra }) => {
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [EPUBGeneration] Starting execution", {
+      title: context.title,
+      chapterCount: context.chapters.length,
+    });
+
+    return generateEPUB({
+      book: {
+        title: context.title,
+        subtitle: context.subtitle,
+        author: context.author,
+        language: context.language || 'en',
+        chapters: withIndexAppendix(context.chapters, context.index),
+        codeLineNumbers: context.codeLineNumbers,
+      },
+      logger,
+    });
+  },
+});
@@ -3,141 +3,201 @@ import type { IMastraLogger } from "@mastra/core/logger";
 import { z } from "zod";
 import { writeFileSync, mkdirSync, statSync } from "fs";
 import { join } from "path";
-import puppeteer from "puppeteer";
+import puppeteer, { type PDFOptions } from "puppeteer";
+import { escapeHtml, renderMarkdown } from "../export/markdown";
+import { CODE_BLOCK_CSS, renderCodeBlock } from "../export/codeHighlight";
+import { readDestinationPages } from "../export/pdfDestinations";
+import { chapterHeading } from "../export/chapterLabels";
+import { bookIndexEntrySchema, withIndexAppendix, type BookIndexEntry } from "../export/bookIndex";
+import {
+  DEFAULT_BOOK_THEME,
+  loadBookTheme,
+  renderPageRules,
+  resolveBookThemeName,
+  type BookTheme,
+} from "../export/bookThemes";
 
-interface Chapter {
+interface Section {
   title: string;
   content: string;
 }
 
+interface Chapter {
+  title: string;
+  // The whole chapter as Markdown; ignored when sections are given
+  content?: string;
+  sections?: Section[];
+  appendix?: boolean;
+}
+
 interface BookContent {
   title: string;
   subtitle?: string;
   author: string;
   chapters: Chapter[];
+  index?: BookIndexEntry[];
+  codeLineNumbers?: boolean;
+  theme?: string;
 }
 
-const generatePDF = async ({
-  bookContent,
-  logger,
-}: {
-  bookContent: BookContent;
-  logger?: IMastraLogger;
-}) => {
-  logger?.info("📖 [PDFGeneration] Starting PDF generation", { 
-    title: bookContent.title,
-    chapterCount: bookContent.chapters.length 
-  });
-
-  try {
-    // Create output directory if it doesn't exist
-    const outputDir = join(process.cwd(), 'generated_books');
-    mkdirSync(outputDir, { recursive: true });
-
-    // Generate HTML content for the book
-    const htmlContent = `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${bookContent.title}</title>
-    <style>
+// Layout every theme relies on; themes supply the typography and colours on top
+const BASE_STYLES = `
         body {
-            font-family: 'Times New Roman', serif;
-            line-height: 1.6;
             margin: 0;
-            padding: 40px;
-            background-color: #fff;
-            color: #333;
         }
         .title-page {
-            text-align: center;
             page-break-after: always;
-            margin-bottom: 100px;
-        }
-        .book-title {
-            font-size: 3em;
-            font-weight: bold;
-            margin-bottom: 20px;
-            color: #2c3e50;
         }
-        .book-subtitle {
-            font-size: 1.5em;
-            margin-bottom: 40px;
-            color: #7f8c8d;
+        .toc {
+            page: contents;
+            page-break-after: always;
         }
-        .book-author {
-            font-size: 1.2em;
-            margin-top: 60px;
-            color: #34495e;
+        .toc-item {
+            display: flex;
+            align-items: baseline;
+            color: inherit;
+            text-decoration: none;
         }
-        .chapter {
-            page-break-before: always;
-            margin-bottom: 50px;
+        .toc-section {
+            padding-left: 2em;
         }
-        .chapter-title {
-            font-size: 2.2em;
-            font-weight: bold;
-            margin-bottom: 30px;
-            color: #2c3e50;
-            border-bottom: 3px solid #3498db;
-            padding-bottom: 10px;
+        .toc-item::after {
+            content: "";
+            order: 1;
+            flex: 1;
+            margin: 0 6px;
+            border-bottom: 1px dotted #999;
         }
-        .chapter-content {
-            font-size: 1.1em;
-            text-align: justify;
-            margin-bottom: 20px;
+        .toc-page {
+            order: 2;
+            min-width: 2.5em;
+            text-align: right;
         }
-        .toc {
-            page-break-after: always;
-            margin-bottom: 50px;
-        }
-        .toc-title {
-            font-size: 2em;
-            font-weight: bold;
-            margin-bottom: 30px;
-            color: #2c3e50;
+        .chapter {
+            page-break-before: always;
         }
-        .toc-item {
-            margin-bottom: 10px;
-            font-size: 1.1em;
+        .chapter-content h2,
+        .chapter-content h3,
+        .chapter-content h4 {
+            page-break-after: avoid;
         }
-        @media print {
-            body { margin: 0; }
-            .chapter { page-break-before: always; }
+        .chapter-content table {
+            border-collapse: collapse;
+            page-break-inside: avoid;
         }
+        ${CODE_BLOCK_CSS}`;
+
+const chapterId = (chapterIndex: number): string => `chapter-${chapterIndex + 1}`;
+
+const sectionId = (chapterIndex: number, sectionIndex: number): string =>
+  `section-${chapterIndex + 1}-${sectionIndex + 1}`;
+
+// Page numbers are left blank on the first pass; the slot keeps its width so
+// filling them in doesn't move anything
+const renderTocEntry = (className: string, id: string, label: string, pageNumbers: Map<string, number>): string =>
+  `<a class="toc-item ${className}" href="#${id}"><span class="toc-label">${label}</span><span class="toc-page">${pageNumbers.get(id) ?? ''}</span></a>`;
+
+const renderBookHtml = (bookContent: BookContent, theme: BookTheme, pageNumbers: Map<string, number>): string => {
+  const renderContent = (markdown: string): string =>
+    renderMarkdown(markdown, {
+      renderCodeBlock: (code, language, meta) =>
+        renderCodeBlock(code, language, meta, { lineNumbers: bookContent.codeLineNumbers }),
+    });
+  // The index lists the page of each anchor once the first pass has found them
+  const chapters: Chapter[] = withIndexAppendix(bookContent.chapters, bookContent.index, pageNumbers);
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(bookContent.title)}</title>
+    <style>
+        ${BASE_STYLES}
+        ${theme.fontFaces}
+        ${theme.css}
+        ${renderPageRules(theme, bookContent.title, [
+          { pageName: 'contents', chapter: 'Contents' },
+          ...chapters.map((_chapter, index) => ({
+            pageName: chapterId(index),
+            chapter: chapterHeading(chapters, index),
+          })),
+        ])}
     </style>
 </head>
 <body>
     <!-- Title Page -->
     <div class="title-page">
-        <h1 class="book-title">${bookContent.title}</h1>
-        ${bookContent.subtitle ? `<h2 class="book-subtitle">${bookContent.subtitle}</h2>` : ''}
-        <p class="book-author">by ${bookContent.author}</p>
+        <h1 class="book-title">${escapeHtml(bookContent.title)}</h1>
+        ${bookContent.subtitle ? `<p class="book-subtitle">${escapeHtml(bookContent.subtitle)}</p>` : ''}
+        <p class="book-author">by ${escapeHtml(bookContent.author)}</p>
     </div>
 
     <!-- Table of Contents -->
     <div class="toc">
         <h2 class="toc-title">Table of Contents</h2>
-        ${bookContent.chapters.map((chapter, index) => 
-          `<div class="toc-item">Chapter ${index + 1}: ${chapter.title}</div>`
-        ).join('')}
+        ${chapters.map((chapter, index) => [
+          renderTocEntry('toc-chapter', chapterId(index), escapeHtml(chapterHeading(chapters, index)), pageNumbers),
+          ...(chapter.sections ?? []).map((section, sectionIndex) =>
+            renderTocEntry('toc-section', sectionId(index, sectionIndex), escapeHtml(section.title), pageNumbers)),
+        ].join('\n')).join('\n')}
     </div>
 
     <!-- Chapters -->
-    ${bookContent.chapters.map((chapter, index) => `
-    <div class="chapter">
-        <h1 class="chapter-title">Chapter ${index + 1}: ${chapter.title}</h1>
+    ${chapters.map((chapter, index) => `
+    <div class="chapter" id="${chapterId(index)}" style="page: ${chapterId(index)}">
+        <h1 class="chapter-title">${escapeHtml(chapterHeading(chapters, index))}</h1>
         <div class="chapter-content">
-            ${chapter.content.split('\n').map(paragraph => 
-              paragraph.trim() ? `<p>${paragraph.trim()}</p>` : ''
-            ).join('')}
+            ${chapter.sections
+              ? chapter.sections.map((section, sectionIndex) => `<section id="${sectionId(index, sectionIndex)}">
+            <h2>${escapeHtml(section.title)}</h2>
+            ${renderContent(section.content)}
+            </section>`).join('\n')
+              : renderContent(chapter.content ?? '')}
         </div>
     </div>
     `).join('')}
 </body>
 </html>`;
+};
+
+// Falls back to the default theme rather than failing the book over a bad theme name
+const loadTheme = (requested: string | undefined, logger?: IMastraLogger): BookTheme => {
+  const name = resolveBookThemeName(requested);
+  try {
+    return loadBookTheme(name);
+  } catch (error) {
+    if (name === DEFAULT_BOOK_THEME) {
+      throw error;
+    }
+    logger?.warn("⚠️ [PDFGeneration] Could not load theme, using the default", {
+      theme: name,
+      defaultTheme: DEFAULT_BOOK_THEME,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return loadBookTheme(DEFAULT_BOOK_THEME);
+  }
+};
+
+const generatePDF = async ({
+  bookContent,
+  logger,
+}: {
+  bookContent: BookContent;
+  logger?: IMastraLogger;
+}) => {
+  logger?.info("📖 [PDFGeneration] Starting PDF generation", { 
+    title: bookContent.title,
+    chapterCount: bookContent.chapters.length 
+  });
+
+  try {
+    // Create output directory if it doesn't exist
+    const outputDir = join(process.cwd(), 'generated_books');
+    mkdirSync(outputDir, { recursive: true });
+
+    const theme = loadTheme(bookContent.theme, logger);
 
     // Save HTML file temporarily
     const sanitizedTitle = bookContent.title.replace(/[^a-zA-Z0-9]/g, '_');
@@ -145,12 +205,12 @@ const generatePDF = async ({
     const filename = `${sanitizedTitle}_${timestamp}`;
     const htmlPath = join(outputDir, `${filename}.html`);
     const pdfPath = join(outputDir, `${filename}.pdf`);
-    
-    writeFileSync(htmlPath, htmlContent, 'utf8');
 
-    logger?.info("📄 [PDFGeneration] HTML file generated, converting to PDF", { 
+    logger?.info("📄 [PDFGeneration] Converting HTML to PDF", { 
       htmlPath,
-      pdfPath 
+      pdfPath,
+      theme: theme.name,
+      pageSize: theme.pageSize,
     });
 
     // Generate PDF using Puppeteer
@@ -169,35 +229,39 @@ const generatePDF = async ({
 
     try {
       const page = await browser.newPage();
-      
-      // Set page format for book-like appearance
-      await page.setContent(htmlContent, { 
+
+      // Both passes must lay out identically, so they share these options
+      // Page size, margins and running heads come from the theme's @page rules
+      const pdfOptions: PDFOptions = {
+        preferCSSPageSize: true,
+        printBackground: true,
+        // PDF bookmarks built from the chapter and section headings
+        outline: true,
+      };
+
+      // First pass: lay the book out to find the page each chapter, section and index anchor lands on
+      await page.setContent(renderBookHtml(bookContent, theme, new Map()), { 
         waitUntil: 'networkidle0',
         timeout: 30000 
       });
-      
-      // Generate PDF with proper formatting
-      await page.pdf({
-        path: pdfPath,
-        format: 'A4',
-        printBackground: true,
-        margin: {
-          top: '20mm',
-          right: '15mm',
-          bottom: '20mm',
-          left: '15mm'
-        },
-        displayHeaderFooter: true,
-        headerTemplate: '<div></div>',
-        footerTemplate: `
-          <div style="font-size: 10px; margin: auto; color: #666;">
-            <span class="pageNumber"></span> / <span class="totalPages"></span>
-          </div>
-        `
+      const pageNumbers = readDestinationPages(await page.pdf(pdfOptions));
+
+      if (pageNumbers.size === 0) {
+        logger?.warn("⚠️ [PDFGeneration] Could not read page numbers from the first pass, leaving them out of the table of contents");
+      }
+
+      // Second pass: the same layout with page numbers filled into the table of contents and index
+      const htmlContent = renderBookHtml(bookContent, theme, pageNumbers);
+      writeFileSync(htmlPath, htmlContent, 'utf8');
+      await page.setContent(htmlContent, { 
+        waitUntil: 'networkidle0',
+        timeout: 30000 
       });
+      await page.pdf({ ...pdfOptions, path: pdfPath });
       
       logger?.info("📄 [PDFGeneration] PDF generated successfully", { 
-        pdfPath
+        pdfPath,
+        tocPageNumbers: pageNumbers.size,
       });
       
     } finally {
@@ -233,15 +297,23 @@ const generatePDF = async ({
 
 export const pdfGenerationTool = createTool({
   id: "pdf-generation-tool",
-  description: `Generates professional PDF books from structured content with chapters, formatting, and table of contents`,
+  description: `Generates professional PDF books from structured content with chapters, formatting, a paginated table of contents, an optional page-numbered index and PDF bookmarks`,
   inputSchema: z.object({
     title: z.string().describe("The main title of the book"),
     subtitle: z.string().optional().describe("Optional subtitle for the book"),
     author: z.string().describe("The author name to display"),
     chapters: z.array(z.object({
       title: z.string().describe("Chapter title"),
-      content: z.string().describe("Chapter content in plain text"),
+      content: z.string().optional().describe("Chapter content in Markdown, used when sections are not given"),
+      sections: z.array(z.object({
+        title: z.string().describe("Section title"),
+        content: z.string().describe("Section content in Markdown"),
+      })).optional().describe("Sections in reading order; listed in the table of contents with their page numbers"),
+      appendix: z.boolean().optional().describe("Back matter such as an answer key; lettered as an appendix instead of numbered"),
     })).describe("Array of chapters with titles and content"),
+    index: z.array(bookIndexEntrySchema).optional().describe("Back-of-book index entries pointing at [text]{#id} anchors in the chapters; printed with page numbers as the last appendix"),
+    codeLineNumbers: z.boolean().optional().describe("Number the lines of every code block"),
+    theme: z.string().optional().describe("Name of a theme directory under themes/ (defaults to BOOK_THEME, then textbook)"),
   }),
   outputSchema: z.object({
     title: z.string(),
@@ -263,6 +335,9 @@ export const pdfGenerationTool = createTool({
       subtitle: context.subtitle,
       author: context.author,
       chapters: context.chapters,
+      index: context.index,
+      codeLineNumbers: context.codeLineNumbers,
+      theme: context.theme,
     };
     
     const result = await generatePDF({ bookContent, logger });
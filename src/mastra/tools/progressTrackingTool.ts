@@ -3,12 +3,16 @@ import type { IMastraLogger } from "@mastra/core/logger";
 import { z } from "zod";
 import { writeFileSync, readFileSync, mkdirSync, existsSync } from "fs";
 import { join } from "path";
+import { emitWorkflowEvent } from "../events/workflowEvents";
+import { bookExportSchema, type BookExport } from "../export/exportFormats";
 
-interface ProgressData {
+export interface ProgressData {
   workflowId: string;
   topic: string;
   startTime: string;
   currentStep: string;
+  currentStepId?: string;
+  activeChapters?: number[];
   completedChapters: number;
   totalChapters: number;
   completedSections: number;
@@ -17,6 +21,15 @@ interface ProgressData {
   targetWordCount: number;
   lastUpdate: string;
   status: 'in_progress' | 'completed' | 'failed' | 'paused';
+  resumedFrom?: string;
+  resumedSections?: number;
+  // Set while the run is suspended waiting for a human decision
+  awaitingApproval?: {
+    stepId: string;
+    requestedAt: string;
+  };
+  // Time spent waiting for approvals, excluded from the time estimate
+  pausedMs?: number;
   errors: string[];
   completedChapterDetails: Array<{
     chapterNumber: number;
@@ -24,6 +37,34 @@ interface ProgressData {
     wordCount: number;
     completedAt: string;
   }>;
+  chapters?: Array<{
+    number: number;
+    title: string;
+    sectionCount: number;
+  }>;
+  result?: {
+    bookPath?: string;
+    fileSize?: number;
+    // Optional formats produced alongside the PDF
+    exports?: BookExport[];
+    completedAt: string;
+  };
+}
+
+export interface ProgressSummary {
+  workflowId: string;
+  topic: string;
+  currentStep: string;
+  completedChapters: number;
+  totalChapters: number;
+  completedSections: number;
+  totalSections: number;
+  totalWordsGenerated: number;
+  targetWordCount: number;
+  progressPercentage: number;
+  estimatedTimeRemaining: string;
+  status: string;
+  lastUpdate: string;
 }
 
 const getProgressFilePath = (workflowId: string): string => {
@@ -32,7 +73,7 @@ const getProgressFilePath = (workflowId: string): string => {
   return join(progressDir, `${workflowId}_progress.json`);
 };
 
-const loadProgress = (workflowId: string): ProgressData | null => {
+export const loadProgress = (workflowId: string): ProgressData | null => {
   const progressPath = getProgressFilePath(workflowId);
   
   if (!existsSync(progressPath)) {
@@ -52,6 +93,12 @@ const saveProgress = (workflowId: string, progress: ProgressData): void => {
   writeFileSync(progressPath, JSON.stringify(progress, null, 2), 'utf8');
 };
 
+export const calculateProgressPercentage = (progress: ProgressData): number => {
+  const sectionProgress = progress.totalSections > 0 ? (progress.completedSections / progress.totalSections) * 100 : 0;
+  const wordProgress = progress.targetWordCount > 0 ? (progress.totalWordsGenerated / progress.targetWordCount) * 100 : 0;
+  return Math.min(100, Math.round(Math.max(sectionProgress, wordProgress)));
+};
+
 export const progressTrackingTool = createTool({
   id: "progress-tracking-tool",
   description: `Tracks and persists progress for long-running educational content generation workflows`,
@@ -64,9 +111,17 @@ export const progressTrackingTool = createTool({
     totalChapters: z.number().optional().describe("Total number of chapters (required for initialization)"),
     totalSections: z.number().optional().describe("Total number of sections across all chapters"),
     targetWordCount: z.number().optional().describe("Target total word count"),
+    chapters: z.array(z.object({
+      number: z.number(),
+      title: z.string(),
+      sectionCount: z.number(),
+    })).optional().describe("Planned chapters, used to report per-chapter progress"),
+    resumedFrom: z.string().optional().describe("Workflow ID whose saved sections this run resumes"),
     
     // For updates
     currentStep: z.string().optional().describe("Current step being executed"),
+    stepId: z.string().optional().describe("ID of the workflow step being executed"),
+    chapterStarted: z.number().optional().describe("Number of a chapter whose generation has started"),
     completedChapters: z.number().optional().describe("Number of completed chapters"),
     completedSections: z.number().optional().describe("Number of completed sections"),
     totalWordsGenerated: z.number().optional().describe("Total words generated so far"),
@@ -75,6 +130,18 @@ export const progressTrackingTool = createTool({
       title: z.string(),
       wordCount: z.number(),
     }).optional().describe("Details of a completed chapter"),
+    sectionCompleted: z.object({
+      chapterNumber: z.number(),
+      sectionIndex: z.number(),
+      wordCount: z.number(),
+    }).optional().describe("A newly generated section; increments the section and word totals"),
+    awaitingApproval: z.string().optional().describe("ID of a step that has suspended the run pending a human decision"),
+    approvalResolved: z.boolean().optional().describe("Marks the pending approval as decided and the run as running again"),
+    
+    // For completion
+    bookPath: z.string().optional().describe("Path of the generated book"),
+    fileSize: z.number().optional().describe("File size of the generated book in bytes"),
+    exports: z.array(bookExportSchema).optional().describe("Additional formats exported with the book"),
     
     // For errors
     error: z.string().optional().describe("Error message to record"),
@@ -114,17 +181,20 @@ export const progressTrackingTool = createTool({
           workflowId,
           topic: context.topic,
           startTime: new Date().toISOString(),
-          currentStep: 'Initializing',
-          completedChapters: 0,
+          currentStep: context.resumedFrom ? `Resuming from ${context.resumedFrom}` : 'Initializing',
+          completedChapters: context.completedChapters ?? 0,
           totalChapters: context.totalChapters,
-          completedSections: 0,
+          completedSections: context.completedSections ?? 0,
           totalSections: context.totalSections,
-          totalWordsGenerated: 0,
+          totalWordsGenerated: context.totalWordsGenerated ?? 0,
           targetWordCount: context.targetWordCount,
           lastUpdate: new Date().toISOString(),
           status: 'in_progress',
+          resumedFrom: context.resumedFrom,
+          resumedSections: context.resumedFrom ? (context.completedSections ?? 0) : undefined,
           errors: [],
           completedChapterDetails: [],
+          chapters: context.chapters,
         };
 
         saveProgress(workflowId, progress);
@@ -135,23 +205,27 @@ export const progressTrackingTool = createTool({
           totalChapters: context.totalChapters 
         });
 
+        const summary: ProgressSummary = {
+          workflowId: progress.workflowId,
+          topic: progress.topic,
+          currentStep: progress.currentStep,
+          completedChapters: progress.completedChapters,
+          totalChapters: progress.totalChapters,
+          completedSections: progress.completedSections,
+          totalSections: progress.totalSections,
+          totalWordsGenerated: progress.totalWordsGenerated,
+          targetWordCount: progress.targetWordCount,
+          progressPercentage: calculateProgressPercentage(progress),
+          estimatedTimeRemaining: "Calculating...",
+          status: progress.status,
+          lastUpdate: progress.lastUpdate,
+        };
+
+        emitWorkflowEvent(workflowId, { type: 'progress-updated', progress: summary });
+
         return {
           success: true,
-          progress: {
-            workflowId: progress.workflowId,
-            topic: progress.topic,
-            currentStep: progress.currentStep,
-            completedChapters: progress.completedChapters,
-            totalChapters: progress.totalChapters,
-            completedSections: progress.completedSections,
-            totalSections: progress.totalSections,
-            totalWordsGenerated: progress.totalWordsGenerated,
-            targetWordCount: progress.targetWordCount,
-            progressPercentage: 0,
-            estimatedTimeRemaining: "Calculating...",
-            status: progress.status,
-            lastUpdate: progress.lastUpdate,
-          },
+          progress: summary,
           message: "Progress tracking initialized"
         };
       }
@@ -165,16 +239,56 @@ export const progressTrackingTool = createTool({
       if (action === 'update') {
         // Update progress fields
         if (context.currentStep) progress.currentStep = context.currentStep;
+        if (context.stepId) progress.currentStepId = context.stepId;
         if (context.completedChapters !== undefined) progress.completedChapters = context.completedChapters;
         if (context.completedSections !== undefined) progress.completedSections = context.completedSections;
         if (context.totalWordsGenerated !== undefined) progress.totalWordsGenerated = context.totalWordsGenerated;
         if (context.error) progress.errors.push(`${new Date().toISOString()}: ${context.error}`);
+
+        // An approved outline may have been edited
+        if (context.chapters) progress.chapters = context.chapters;
+        if (context.totalChapters) progress.totalChapters = context.totalChapters;
+        if (context.totalSections) progress.totalSections = context.totalSections;
+        if (context.targetWordCount) progress.targetWordCount = context.targetWordCount;
+
+        if (context.awaitingApproval) {
+          progress.status = 'paused';
+          progress.awaitingApproval = {
+            stepId: context.awaitingApproval,
+            requestedAt: new Date().toISOString(),
+          };
+        }
+
+        if (context.approvalResolved && progress.awaitingApproval) {
+          progress.pausedMs = (progress.pausedMs ?? 0) + (Date.now() - new Date(progress.awaitingApproval.requestedAt).getTime());
+          progress.awaitingApproval = undefined;
+          progress.status = 'in_progress';
+        }
+
+        // Chapters and sections may run concurrently, so these are applied as increments
+        // to the stored totals rather than overwriting them with a caller's snapshot
+        if (context.chapterStarted !== undefined) {
+          const activeChapters = progress.activeChapters ?? [];
+          if (!activeChapters.includes(context.chapterStarted)) {
+            progress.activeChapters = [...activeChapters, context.chapterStarted];
+          }
+        }
+
+        if (context.sectionCompleted) {
+          progress.completedSections++;
+          progress.totalWordsGenerated += context.sectionCompleted.wordCount;
+        }
         
         if (context.chapterCompleted) {
-          progress.completedChapterDetails.push({
-            ...context.chapterCompleted,
-            completedAt: new Date().toISOString(),
-          });
+          const { chapterNumber } = context.chapterCompleted;
+          progress.activeChapters = (progress.activeChapters ?? []).filter(number => number !== chapterNumber);
+          if (!progress.completedChapterDetails.some(detail => detail.chapterNumber === chapterNumber)) {
+            progress.completedChapters++;
+            progress.completedChapterDetails.push({
+              ...context.chapterCompleted,
+              completedAt: new Date().toISOString(),
+            });
+          }
         }
 
         progress.lastUpdate = new Date().toISOString();
@@ -190,6 +304,12 @@ export const progressTrackingTool = createTool({
         progress.status = 'completed';
         progress.currentStep = 'Completed';
         progress.lastUpdate = new Date().toISOString();
+        progress.result = {
+          bookPath: context.bookPath,
+          fileSize: context.fileSize,
+          exports: context.exports,
+          completedAt: progress.lastUpdate,
+        };
         saveProgress(workflowId, progress);
 
         logger?.info("🎉 [ProgressTracking] Workflow completed", { workflowId });
@@ -205,17 +325,16 @@ export const progressTrackingTool = createTool({
       }
 
       // Calculate progress percentage and estimated time
-      const sectionProgress = progress.totalSections > 0 ? (progress.completedSections / progress.totalSections) * 100 : 0;
-      const wordProgress = progress.targetWordCount > 0 ? (progress.totalWordsGenerated / progress.targetWordCount) * 100 : 0;
-      const progressPercentage = Math.round(Math.max(sectionProgress, wordProgress));
+      const progressPercentage = calculateProgressPercentage(progress);
 
-      // Estimate time remaining based on completed sections
+      // Estimate time remaining based on sections generated by this run (resumed ones took no time)
       let estimatedTimeRemaining = "Calculating...";
-      if (progress.completedSections > 0) {
+      const sectionsGeneratedThisRun = progress.completedSections - (progress.resumedSections ?? 0);
+      if (sectionsGeneratedThisRun > 0) {
         const startTime = new Date(progress.startTime).getTime();
         const currentTime = new Date().getTime();
-        const elapsedMs = currentTime - startTime;
-        const avgTimePerSection = elapsedMs / progress.completedSections;
+        const elapsedMs = currentTime - startTime - (progress.pausedMs ?? 0);
+        const avgTimePerSection = elapsedMs / sectionsGeneratedThisRun;
         const remainingSections = progress.totalSections - progress.completedSections;
         const remainingMs = avgTimePerSection * remainingSections;
         
@@ -229,23 +348,37 @@ export const progressTrackingTool = createTool({
         }
       }
 
+      const summary: ProgressSummary = {
+        workflowId: progress.workflowId,
+        topic: progress.topic,
+        currentStep: progress.currentStep,
+        completedChapters: progress.completedChapters,
+        totalChapters: progress.totalChapters,
+        completedSections: progress.completedSections,
+        totalSections: progress.totalSections,
+        totalWordsGenerated: progress.totalWordsGenerated,
+        targetWordCount: progress.targetWordCount,
+        progressPercentage,
+        estimatedTimeRemaining,
+        status: progress.status,
+        lastUpdate: progress.lastUpdate,
+      };
+
+      // Publish the change to live subscribers (reads are not changes)
+      if (action !== 'get') {
+        emitWorkflowEvent(workflowId, { type: 'progress-updated', progress: summary });
+      }
+      if (action === 'update' && context.chapterCompleted) {
+        emitWorkflowEvent(workflowId, { type: 'chapter-completed', ...context.chapterCompleted });
+      } else if (action === 'complete') {
+        emitWorkflowEvent(workflowId, { type: 'workflow-completed', bookPath: context.bookPath });
+      } else if (action === 'fail') {
+        emitWorkflowEvent(workflowId, { type: 'workflow-failed', error: context.error || 'Workflow failed' });
+      }
+
       return {
         success: true,
-        progress: {
-          workflowId: progress.workflowId,
-          topic: progress.topic,
-          currentStep: progress.currentStep,
-          completedChapters: progress.completedChapters,
-          totalChapters: progress.totalChapters,
-          completedSections: progress.completedSections,
-          totalSections: progress.totalSections,
-          totalWordsGenerated: progress.totalWordsGenerated,
-          targetWordCount: progress.targetWordCount,
-          progressPercentage,
-          estimatedTimeRemaining,
-          status: progress.status,
-          lastUpdate: progress.lastUpdate,
-        },
+        progress: summary,
         message: `Progress ${action} completed successfully`
       };
 
@@ -0,0 +1,406 @@
+import { createTool } from "@mastra/core/tools";
+import type { IMastraLogger } from "@mastra/core/logger";
+import { z } from "zod";
+import { writeFileSync, mkdirSync } from "fs";
+import { join } from "path";
+import { escapeHtml, renderMarkdown } from "../export/markdown";
+import { CODE_BLOCK_CSS, renderCodeBlock } from "../export/codeHighlight";
+import { createZipArchive, type ZipEntry } from "../export/zipArchive";
+import { chapterHeading, chapterLabel } from "../export/chapterLabels";
+import { bookIndexEntrySchema, withIndexAppendix } from "../export/bookIndex";
+import { linkResolver, locateAnchors } from "../export/anchorLocations";
+
+export const SCORM_VERSIONS = ['1.2', '2004'] as const;
+
+export type ScormVersion = (typeof SCORM_VERSIONS)[number];
+
+const isScormVersion = (value: string): value is ScormVersion =>
+  (SCORM_VERSIONS as readonly string[]).includes(value);
+
+// The version asked for, then SCORM_VERSION, then 1.2 since every LMS imports it
+export const resolveScormVersion = (requested?: string): ScormVersion => {
+  const version = (requested || process.env.SCORM_VERSION || '').trim();
+  return isScormVersion(version) ? version : '1.2';
+};
+
+interface Section {
+  title: string;
+  content: string;
+}
+
+interface Chapter {
+  title: string;
+  sections: Section[];
+  appendix?: boolean;
+}
+
+interface ScormCourse {
+  title: string;
+  subtitle?: string;
+  author: string;
+  language: string;
+  chapters: Chapter[];
+  version: ScormVersion;
+  codeLineNumbers?: boolean;
+}
+
+const chapterFile = (chapterIndex: number): string => `chapter-${chapterIndex + 1}/index.html`;
+
+const sectionId = (sectionIndex: number): string => `section-${sectionIndex + 1}`;
+
+const COURSE_STYLES = `body {
+  margin: 0 auto;
+  max-width: 52rem;
+  padding: 1.5rem 2rem 4rem;
+  font-family: Georgia, "Times New Roman", serif;
+  line-height: 1.65;
+  color: #2d3436;
+}
+h1 {
+  color: #2c3e50;
+  border-bottom: 3px solid #3498db;
+  padding-bottom: 0.3rem;
+}
+h2, h3, h4 {
+  color: #2c3e50;
+}
+.chapter-contents {
+  margin: 1rem 0 2rem;
+  padding: 0.8rem 1.2rem;
+  background-color: #f4f8fb;
+  font-family: Arial, sans-serif;
+  font-size: 0.9rem;
+}
+blockquote {
+  margin: 1em 0;
+  padding: 0.5em 1em;
+  border-left: 4px solid #3498db;
+  background-color: #f4f8fb;
+  color: #555;
+}
+table {
+  border-collapse: collapse;
+  margin: 1em 0;
+}
+th, td {
+  border: 1px solid #ccc;
+  padding: 6px 8px;
+}
+code {
+  font-family: "DejaVu Sans Mono", "Courier New", monospace;
+  font-size: 0.9em;
+}
+.chapter-end {
+  margin-top: 3rem;
+  padding: 1rem;
+  border-top: 1px solid #e1e4e8;
+  font-family: Arial, sans-serif;
+  text-align: center;
+  color: #27ae60;
+}
+${CODE_BLOCK_CSS}`;
+
+// Runtime shared by every SCO: finds the LMS API, restores the learner's place,
+// records the current section as the bookmark and reports the chapter completed
+// once its end has been scrolled into view
+const SCORM_RUNTIME = `(function () {
+  var version = document.documentElement.getAttribute('data-scorm-version');
+  var is2004 = version === '2004';
+  var apiName = is2004 ? 'API_1484_11' : 'API';
+  var calls = is2004
+    ? { init: 'Initialize', get: 'GetValue', set: 'SetValue', commit: 'Commit', finish: 'Terminate' }
+    : { init: 'LMSInitialize', get: 'LMSGetValue', set: 'LMSSetValue', commit: 'LMSCommit', finish: 'LMSFinish' };
+  var keys = is2004
+    ? { status: 'cmi.completion_status', location: 'cmi.location', exit: 'cmi.exit', sessionTime: 'cmi.session_time' }
+    : { status: 'cmi.core.lesson_status', location: 'cmi.core.lesson_location', exit: 'cmi.core.exit', sessionTime: 'cmi.core.session_time' };
+
+  function findApi(win) {
+    for (var depth = 0; win && depth < 10; depth++) {
+      if (win[apiName]) {
+        return win[apiName];
+      }
+      if (win.parent === win) {
+        break;
+      }
+      win = win.parent;
+    }
+    return null;
+  }
+
+  var api = findApi(window) || (window.opener ? findApi(window.opener) : null);
+  var startedAt = Date.now();
+  var completed = false;
+  var finished = false;
+
+  function call(name) {
+    if (!api) {
+      return '';
+    }
+    try {
+      return api[calls[name]].apply(api, Array.prototype.slice.call(arguments, 1));
+    } catch (error) {
+      return '';
+    }
+  }
+
+  function sessionTime() {
+    var seconds = Math.round((Date.now() - startedAt) / 1000);
+    var hours = Math.floor(seconds / 3600);
+    var minutes = Math.floor((seconds % 3600) / 60);
+    seconds = seconds % 60;
+    if (is2004) {
+      return 'PT' + hours + 'H' + minutes + 'M' + seconds + 'S';
+    }
+    var pad = function (value) { return (value < 10 ? '0' : '') + value; };
+    return pad(hours) + ':' + pad(minutes) + ':' + pad(seconds);
+  }
+
+  function complete() {
+    if (completed) {
+      return;
+    }
+    completed = true;
+    call('set', keys.status, 'completed');
+    call('commit', '');
+  }
+
+  function finish() {
+    if (finished) {
+      return;
+    }
+    finished = true;
+    call('set', keys.sessionTime, sessionTime());
+    call('set', keys.exit, completed ? (is2004 ? 'normal' : '') : 'suspend');
+    call('commit', '');
+    call('finish', '');
+  }
+
+  call('init', '');
+  var status = call('get', keys.status);
+  completed = status === 'completed' || status === 'passed';
+  if (!completed) {
+    call('set', keys.status, 'incomplete');
+  }
+
+  var bookmark = call('get', keys.location);
+  if (bookmark && document.getElementById(bookmark)) {
+    document.getElementById(bookmark).scrollIntoView();
+  }
+
+  var sections = document.querySelectorAll('section[id]');
+  var chapterEnd = document.getElementById('chapter-end');
+  if ('IntersectionObserver' in window) {
+    var observer = new IntersectionObserver(function (entries) {
+      entries.forEach(function (entry) {
+        if (!entry.isIntersecting) {
+          return;
+        }
+        if (entry.target === chapterEnd) {
+          complete();
+        } else {
+          call('set', keys.location, entry.target.id);
+        }
+      });
+    });
+    Array.prototype.forEach.call(sections, function (section) { observer.observe(section); });
+    if (chapterEnd) {
+      observer.observe(chapterEnd);
+    }
+  } else {
+    // Without an observer there's no way to tell how far the learner read
+    complete();
+  }
+
+  window.addEventListener('pagehide', finish);
+  window.addEventListener('beforeunload', finish);
+})();
+`;
+
+const renderChapterSco = (course: ScormCourse, chapter: Chapter, chapterIndex: number, resolveLink: (href: string) => string): string => `<!DOCTYPE html>
+<html lang="${escapeHtml(course.language)}" data-scorm-version="${course.version}">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(chapterHeading(course.chapters, chapterIndex))}</title>
+<link rel="stylesheet" href="../shared/course.css">
+</head>
+<body>
+<h1>${escapeHtml(chapterHeading(course.chapters, chapterIndex))}</h1>
+<nav class="chapter-contents" aria-label="Sections">
+<ol>
+${chapter.sections.map((section, sectionIndex) => `<li><a href="#${sectionId(sectionIndex)}">${escapeHtml(section.title)}</a></li>`).join('\n')}
+</ol>
+</nav>
+${chapter.sections.map((section, sectionIndex) => `<section id="${sectionId(sectionIndex)}">
+<h2>${escapeHtml(section.title)}</h2>
+${renderMarkdown(section.content, {
+    headingOffset: 1,
+    renderCodeBlock: (code, language, meta) => renderCodeBlock(code, language, meta, { lineNumbers: course.codeLineNumbers }),
+    resolveLink,
+  })}
+</section>`).join('\n')}
+<p id="chapter-end" class="chapter-end">End of ${escapeHtml(chapterLabel(course.chapters, chapterIndex))}</p>
+<script src="../shared/scorm-runtime.js"></script>
+</body>
+</html>
+`;
+
+// Manifest namespaces and the resource type attributes differ between the two versions
+const MANIFEST_SCHEMAS: Record<ScormVersion, { namespaces: string; schemaVersion: string; scoAttribute: string; assetAttribute: string }> = {
+  '1.2': {
+    namespaces: 'xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2" xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2"',
+    schemaVersion: '1.2',
+    scoAttribute: 'adlcp:scormtype="sco"',
+    assetAttribute: 'adlcp:scormtype="asset"',
+  },
+  '2004': {
+    namespaces: 'xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_v1p3"',
+    schemaVersion: '2004 4th Edition',
+    scoAttribute: 'adlcp:scormType="sco"',
+    assetAttribute: 'adlcp:scormType="asset"',
+  },
+};
+
+const renderManifest = (course: ScormCourse, identifier: string): string => {
+  const schema = MANIFEST_SCHEMAS[course.version];
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${identifier}" version="1.0" ${schema.namespaces}>
+<metadata>
+  <schema>ADL SCORM</schema>
+  <schemaversion>${schema.schemaVersion}</schemaversion>
+</metadata>
+<organizations default="course">
+  <organization identifier="course">
+    <title>${escapeHtml(course.title)}</title>
+${course.chapters.map((_chapter, chapterIndex) => `    <item identifier="item-${chapterIndex + 1}" identifierref="sco-${chapterIndex + 1}">
+      <title>${escapeHtml(chapterHeading(course.chapters, chapterIndex))}</title>
+    </item>`).join('\n')}
+  </organization>
+</organizations>
+<resources>
+${course.chapters.map((_chapter, chapterIndex) => `  <resource identifier="sco-${chapterIndex + 1}" type="webcontent" ${schema.scoAttribute} href="${chapterFile(chapterIndex)}">
+    <file href="${chapterFile(chapterIndex)}"/>
+    <dependency identifierref="shared"/>
+  </resource>`).join('\n')}
+  <resource identifier="shared" type="webcontent" ${schema.assetAttribute}>
+    <file href="shared/course.css"/>
+    <file href="shared/scorm-runtime.js"/>
+  </resource>
+</resources>
+</manifest>
+`;
+};
+
+const generateScormPackage = async ({
+  course,
+  logger,
+}: {
+  course: ScormCourse;
+  logger?: IMastraLogger;
+}) => {
+  logger?.info("🎓 [SCORMPackage] Starting SCORM package generation", {
+    title: course.title,
+    version: course.version,
+    chapterCount: course.chapters.length,
+  });
+
+  try {
+    const outputDir = join(process.cwd(), 'generated_books');
+    mkdirSync(outputDir, { recursive: true });
+
+    const generatedAt = new Date();
+    const sanitizedTitle = course.title.replace(/[^a-zA-Z0-9]/g, '_');
+    const timestamp = generatedAt.toISOString().replace(/[:.]/g, '-');
+
+    // SCOs sit in sibling directories, so links to another chapter go up a level
+    const resolveLink = linkResolver(locateAnchors(course.chapters), location => `../${chapterFile(location.chapterIndex)}`);
+
+    const entries: ZipEntry[] = [
+      { name: 'imsmanifest.xml', data: renderManifest(course, `SCORM_${sanitizedTitle}_${timestamp}`) },
+      { name: 'shared/course.css', data: COURSE_STYLES },
+      { name: 'shared/scorm-runtime.js', data: SCORM_RUNTIME },
+      ...course.chapters.map((chapter, chapterIndex) => ({
+        name: chapterFile(chapterIndex),
+        data: renderChapterSco(course, chapter, chapterIndex, resolveLink),
+      })),
+    ];
+
+    const archive = createZipArchive(entries, generatedAt);
+    const packagePath = join(outputDir, `${sanitizedTitle}_${timestamp}_scorm.zip`);
+    writeFileSync(packagePath, archive);
+
+    logger?.info("✅ [SCORMPackage] SCORM package written", {
+      packagePath,
+      version: course.version,
+      fileSize: archive.length,
+    });
+
+    return {
+      title: course.title,
+      format: 'scorm',
+      version: course.version,
+      path: packagePath,
+      fileSize: archive.length,
+      chapterCount: course.chapters.length,
+      generatedAt: generatedAt.toISOString(),
+    };
+  } catch (error) {
+    logger?.error("❌ [SCORMPackage] Error generating SCORM package", {
+      title: course.title,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    throw new Error(`SCORM package generation failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+export const scormPackageTool = createTool({
+  id: "scorm-package-tool",
+  description: `Packages the book as a SCORM 1.2 or 2004 zip with one trackable SCO per chapter, ready to upload to an LMS`,
+  inputSchema: z.object({
+    title: z.string().describe("The main title of the course"),
+    subtitle: z.string().optional().describe("Optional subtitle for the course"),
+    author: z.string().describe("The author name to display"),
+    language: z.string().default('en').describe("BCP 47 language tag of the content"),
+    version: z.enum(SCORM_VERSIONS).optional().describe("SCORM version of the package (defaults to SCORM_VERSION, then 1.2)"),
+    chapters: z.array(z.object({
+      title: z.string().describe("Chapter title"),
+      sections: z.array(z.object({
+        title: z.string().describe("Section title"),
+        content: z.string().describe("Section content in Markdown"),
+      })).describe("Sections in reading order"),
+      appendix: z.boolean().optional().describe("Back matter such as an answer key; lettered as an appendix instead of numbered"),
+    })).describe("Array of chapters with their sections; each becomes one SCO"),
+    index: z.array(bookIndexEntrySchema).optional().describe("Back-of-book index entries pointing at [text]{#id} anchors in the chapters; added as the last appendix, linked by section number"),
+    codeLineNumbers: z.boolean().optional().describe("Number the lines of every code block"),
+  }),
+  outputSchema: z.object({
+    title: z.string(),
+    format: z.string(),
+    version: z.enum(SCORM_VERSIONS),
+    path: z.string(),
+    fileSize: z.number(),
+    chapterCount: z.number(),
+    generatedAt: z.string(),
+  }),
+  execute: async ({ context, mastra }) => {
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [SCORMPackage] Starting execution", {
+      title: context.title,
+      chapterCount: context.chapters.length,
+    });
+
+    return generateScormPackage({
+      course: {
+        title: context.title,
+        subtitle: context.subtitle,
+        author: context.author,
+        language: context.language || 'en',
+        chapters: withIndexAppendix(context.chapters, context.index),
+        version: resolveScormVersion(context.version),
+        codeLineNumbers: context.codeLineNumbers,
+      },
+      logger,
+    });
+  },
+});
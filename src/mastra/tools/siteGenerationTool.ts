@@ -0,0 +1,550 @@
+import { createTool } from "@mastra/core/tools";
+import type { IMastraLogger } from "@mastra/core/logger";
+import { z } from "zod";
+import { writeFileSync, mkdirSync } from "fs";
+import { join } from "path";
+import { escapeHtml, renderMarkdown } from "../export/markdown";
+import { CODE_BLOCK_CSS, renderCodeBlock } from "../export/codeHighlight";
+import { chapterHeading } from "../export/chapterLabels";
+import { bookIndexEntrySchema, withIndexAppendix } from "../export/bookIndex";
+import { linkResolver, locateAnchors } from "../export/anchorLocations";
+
+interface Section {
+  title: string;
+  content: string;
+}
+
+interface Chapter {
+  title: string;
+  sections: Section[];
+  appendix?: boolean;
+}
+
+interface SiteBook {
+  title: string;
+  subtitle?: string;
+  author: string;
+  language: string;
+  chapters: Chapter[];
+  codeLineNumbers?: boolean;
+}
+
+// One page of the site, in reading order
+interface SitePage {
+  chapterIndex: number;
+  sectionIndex: number;
+  fileName: string;
+  section: Section;
+}
+
+interface SearchEntry {
+  url: string;
+  chapter: string;
+  title: string;
+  text: string;
+}
+
+// Every page sits at the site root, so links between pages and to assets/ stay relative
+const pageFileName = (chapterIndex: number, sectionIndex: number): string =>
+  `section-${chapterIndex + 1}-${sectionIndex + 1}.html`;
+
+const SITE_STYLES = `* {
+  box-sizing: border-box;
+}
+body {
+  margin: 0;
+  font-family: Georgia, "Times New Roman", serif;
+  line-height: 1.65;
+  color: #2d3436;
+  background-color: #fff;
+}
+a {
+  color: #2471a3;
+}
+.site-header {
+  position: sticky;
+  top: 0;
+  z-index: 10;
+  display: flex;
+  align-items: center;
+  gap: 1rem;
+  padding: 0.6rem 1.5rem;
+  background-color: #2c3e50;
+  color: #fff;
+  font-family: Arial, sans-serif;
+}
+.site-title {
+  flex: 1;
+  color: #fff;
+  font-weight: bold;
+  text-decoration: none;
+}
+.search {
+  position: relative;
+  width: min(22rem, 50vw);
+}
+.search input {
+  width: 100%;
+  padding: 0.4rem 0.6rem;
+  border: none;
+  border-radius: 4px;
+  font-size: 0.95rem;
+}
+.search-results {
+  position: absolute;
+  right: 0;
+  left: 0;
+  max-height: 70vh;
+  overflow-y: auto;
+  margin: 0.3rem 0 0;
+  padding: 0;
+  list-style: none;
+  background-color: #fff;
+  border-radius: 4px;
+  box-shadow: 0 4px 16px rgba(0, 0, 0, 0.2);
+}
+.search-results li a {
+  display: block;
+  padding: 0.5rem 0.75rem;
+  color: #2d3436;
+  text-decoration: none;
+  border-bottom: 1px solid #eee;
+}
+.search-results li a:hover,
+.search-results li a:focus {
+  background-color: #eaf2f8;
+}
+.search-results .result-chapter {
+  display: block;
+  font-size: 0.75rem;
+  color: #7f8c8d;
+}
+.search-results .result-snippet {
+  display: block;
+  font-size: 0.8rem;
+  color: #555;
+}
+.layout {
+  display: flex;
+  align-items: flex-start;
+}
+.sidebar {
+  position: sticky;
+  top: 3rem;
+  flex: 0 0 18rem;
+  max-height: calc(100vh - 3rem);
+  overflow-y: auto;
+  padding: 1rem 1rem 2rem 1.5rem;
+  border-right: 1px solid #e1e4e8;
+  font-family: Arial, sans-serif;
+  font-size: 0.9rem;
+}
+.sidebar ol {
+  margin: 0;
+  padding: 0;
+  list-style: none;
+}
+.sidebar .chapter-link {
+  display: block;
+  margin-top: 0.9rem;
+  font-weight: bold;
+  color: #2c3e50;
+}
+.sidebar .sections a {
+  display: block;
+  padding: 0.15rem 0 0.15rem 0.8rem;
+  color: #4a5568;
+  text-decoration: none;
+  border-left: 2px solid transparent;
+}
+.sidebar .sections a[aria-current="page"] {
+  color: #2471a3;
+  border-left-color: #2471a3;
+  font-weight: bold;
+}
+main {
+  flex: 1;
+  min-width: 0;
+  max-width: 50rem;
+  padding: 1.5rem 2.5rem 3rem;
+}
+.breadcrumb {
+  margin: 0;
+  font-family: Arial, sans-serif;
+  font-size: 0.85rem;
+  color: #7f8c8d;
+}
+main h1 {
+  margin-top: 0.3rem;
+  color: #2c3e50;
+  border-bottom: 3px solid #3498db;
+  padding-bottom: 0.3rem;
+}
+main h2,
+main h3,
+main h4 {
+  color: #2c3e50;
+}
+blockquote {
+  margin: 1em 0;
+  padding: 0.5em 1em;
+  border-left: 4px solid #3498db;
+  background-color: #f4f8fb;
+  color: #555;
+}
+table {
+  border-collapse: collapse;
+  margin: 1em 0;
+}
+th,
+td {
+  border: 1px solid #ccc;
+  padding: 6px 8px;
+}
+th {
+  background-color: #ecf0f1;
+}
+code {
+  font-family: "DejaVu Sans Mono", "Courier New", monospace;
+  font-size: 0.9em;
+}
+.pager {
+  display: flex;
+  justify-content: space-between;
+  gap: 1rem;
+  margin-top: 3rem;
+  padding-top: 1rem;
+  border-top: 1px solid #e1e4e8;
+  font-family: Arial, sans-serif;
+}
+.pager a {
+  max-width: 48%;
+  text-decoration: none;
+}
+.pager .next {
+  margin-left: auto;
+  text-align: right;
+}
+.pager small {
+  display: block;
+  color: #7f8c8d;
+}
+.contents .chapter-heading {
+  margin-bottom: 0.3rem;
+}
+@media (max-width: 800px) {
+  .layout {
+    display: block;
+  }
+  .sidebar {
+    position: static;
+    max-height: none;
+    border-right: none;
+    border-bottom: 1px solid #e1e4e8;
+  }
+  main {
+    padding: 1rem;
+  }
+}
+@media print {
+  .site-header,
+  .sidebar,
+  .pager {
+    display: none;
+  }
+  .layout {
+    display: block;
+  }
+  main {
+    max-width: none;
+    padding: 0;
+  }
+  body {
+    font-size: 11pt;
+  }
+  main a[href^="http"]::after {
+    content: " (" attr(href) ")";
+    font-size: 0.85em;
+  }
+  h1,
+  h2,
+  h3 {
+    page-break-after: avoid;
+  }
+}
+${CODE_BLOCK_CSS}`;
+
+// Plain-text ranking over the generated index: title matches count more than body matches
+const SEARCH_SCRIPT = `(function () {
+  var input = document.getElementById('search-input');
+  var results = document.getElementById('search-results');
+  var index = window.SEARCH_INDEX || [];
+  if (!input || !results) {
+    return;
+  }
+
+  function escapeHtml(text) {
+    return text.replace(/[&<>"']/g, function (char) {
+      return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char];
+    });
+  }
+
+  function snippet(text, term) {
+    var at = text.toLowerCase().indexOf(term);
+    if (at === -1) {
+      return text.slice(0, 140);
+    }
+    var start = Math.max(0, at - 60);
+    return (start > 0 ? '\\u2026' : '') + text.slice(start, start + 140) + '\\u2026';
+  }
+
+  function search(query) {
+    var terms = query.toLowerCase().split(/\\s+/).filter(function (term) { return term.length > 1; });
+    if (terms.length === 0) {
+      return [];
+    }
+    return index.map(function (entry) {
+      var title = entry.title.toLowerCase();
+      var text = entry.text.toLowerCase();
+      var score = 0;
+      for (var i = 0; i < terms.length; i++) {
+        var inTitle = title.indexOf(terms[i]) !== -1;
+        var inText = text.indexOf(terms[i]) !== -1;
+        if (!inTitle && !inText) {
+          return null;
+        }
+        score += (inTitle ? 5 : 0) + text.split(terms[i]).length - 1;
+      }
+      return { entry: entry, score: score, term: terms[0] };
+    }).filter(Boolean).sort(function (a, b) { return b.score - a.score; }).slice(0, 10);
+  }
+
+  input.addEventListener('input', function () {
+    var matches = search(input.value);
+    results.innerHTML = matches.map(function (match) {
+      return '<li><a href="' + match.entry.url + '">' +
+        '<span class="result-chapter">' + escapeHtml(match.entry.chapter) + '</span>' +
+        escapeHtml(match.entry.title) +
+        '<span class="result-snippet">' + escapeHtml(snippet(match.entry.text, match.term)) + '</span></a></li>';
+    }).join('') || (input.value.trim() ? '<li><a>No matches</a></li>' : '');
+  });
+
+  input.addEventListener('keydown', function (event) {
+    if (event.key === 'Escape') {
+      input.value = '';
+      results.innerHTML = '';
+    }
+  });
+})();
+`;
+
+const htmlToText = (html: string): string =>
+  html
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const renderSidebar = (book: SiteBook, currentFile?: string): string => `<nav class="sidebar" aria-label="Chapters">
+<ol>
+${book.chapters.map((chapter, chapterIndex) => `<li>
+<a class="chapter-link" href="${pageFileName(chapterIndex, 0)}">${escapeHtml(chapterHeading(book.chapters, chapterIndex))}</a>
+<ol class="sections">
+${chapter.sections.map((section, sectionIndex) => {
+    const fileName = pageFileName(chapterIndex, sectionIndex);
+    return `<li><a href="${fileName}"${fileName === currentFile ? ' aria-current="page"' : ''}>${escapeHtml(section.title)}</a></li>`;
+  }).join('\n')}
+</ol>
+</li>`).join('\n')}
+</ol>
+</nav>`;
+
+const renderLayout = (book: SiteBook, pageTitle: string, main: string, currentFile?: string): string => `<!DOCTYPE html>
+<html lang="${escapeHtml(book.language)}">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(pageTitle)}</title>
+<link rel="stylesheet" href="assets/site.css">
+</head>
+<body>
+<header class="site-header">
+<a class="site-title" href="index.html">${escapeHtml(book.title)}</a>
+<div class="search" role="search">
+<input id="search-input" type="search" placeholder="Search this book" aria-label="Search this book" autocomplete="off">
+<ol id="search-results" class="search-results"></ol>
+</div>
+</header>
+<div class="layout">
+${renderSidebar(book, currentFile)}
+<main>
+${main}
+</main>
+</div>
+<script src="search-index.js"></script>
+<script src="assets/search.js"></script>
+</body>
+</html>
+`;
+
+const pagerLink = (page: SitePage | undefined, direction: 'prev' | 'next'): string =>
+  page
+    ? `<a class="${direction}" href="${page.fileName}" rel="${direction}"><small>${direction === 'prev' ? '← Previous' : 'Next →'}</small>${escapeHtml(page.section.title)}</a>`
+    : '';
+
+const renderIndexPage = (book: SiteBook): string =>
+  renderLayout(book, book.title, `<h1>${escapeHtml(book.title)}</h1>
+${book.subtitle ? `<p class="breadcrumb">${escapeHtml(book.subtitle)}</p>` : ''}
+<p>by ${escapeHtml(book.author)}</p>
+<div class="contents">
+<h2>Contents</h2>
+${book.chapters.map((chapter, chapterIndex) => `<h3 class="chapter-heading">${escapeHtml(chapterHeading(book.chapters, chapterIndex))}</h3>
+<ol>
+${chapter.sections.map((section, sectionIndex) =>
+    `<li><a href="${pageFileName(chapterIndex, sectionIndex)}">${escapeHtml(section.title)}</a></li>`).join('\n')}
+</ol>`).join('\n')}
+</div>
+${book.chapters.length > 0 && book.chapters[0].sections.length > 0 ? `<nav class="pager"><a class="next" href="${pageFileName(0, 0)}" rel="next"><small>Start reading →</small>${escapeHtml(book.chapters[0].sections[0].title)}</a></nav>` : ''}`);
+
+const generateSite = async ({
+  book,
+  logger,
+}: {
+  book: SiteBook;
+  logger?: IMastraLogger;
+}) => {
+  logger?.info("🌐 [SiteGeneration] Starting course site generation", {
+    title: book.title,
+    chapterCount: book.chapters.length,
+  });
+
+  try {
+    const generatedAt = new Date();
+    const sanitizedTitle = book.title.replace(/[^a-zA-Z0-9]/g, '_');
+    const timestamp = generatedAt.toISOString().replace(/[:.]/g, '-');
+    const siteDir = join(process.cwd(), 'generated_books', `${sanitizedTitle}_${timestamp}_site`);
+    mkdirSync(join(siteDir, 'assets'), { recursive: true });
+
+    let totalSize = 0;
+    const writeSiteFile = (relativePath: string, data: string) => {
+      writeFileSync(join(siteDir, relativePath), data, 'utf8');
+      totalSize += Buffer.byteLength(data);
+    };
+
+    const pages: SitePage[] = book.chapters.flatMap((chapter, chapterIndex) =>
+      chapter.sections.map((section, sectionIndex) => ({
+        chapterIndex,
+        sectionIndex,
+        fileName: pageFileName(chapterIndex, sectionIndex),
+        section,
+      })));
+
+    const searchIndex: SearchEntry[] = [];
+    const resolveLink = linkResolver(locateAnchors(book.chapters), location => pageFileName(location.chapterIndex, location.sectionIndex));
+
+    pages.forEach((page, pageIndex) => {
+      const content = renderMarkdown(page.section.content, {
+        headingOffset: 1,
+        renderCodeBlock: (code, language, meta) => renderCodeBlock(code, language, meta, { lineNumbers: book.codeLineNumbers }),
+        resolveLink,
+      });
+
+      writeSiteFile(page.fileName, renderLayout(book, `${page.section.title} – ${book.title}`, `<p class="breadcrumb">${escapeHtml(chapterHeading(book.chapters, page.chapterIndex))}</p>
+<h1>${escapeHtml(page.section.title)}</h1>
+${content}
+<nav class="pager">
+${pagerLink(pages[pageIndex - 1], 'prev')}
+${pagerLink(pages[pageIndex + 1], 'next')}
+</nav>`, page.fileName));
+
+      searchIndex.push({
+        url: page.fileName,
+        chapter: chapterHeading(book.chapters, page.chapterIndex),
+        title: page.section.title,
+        text: htmlToText(content),
+      });
+    });
+
+    writeSiteFile('index.html', renderIndexPage(book));
+    writeSiteFile('assets/site.css', SITE_STYLES);
+    writeSiteFile('assets/search.js', SEARCH_SCRIPT);
+    // A script rather than JSON so search also works when the site is opened from disk
+    writeSiteFile('search-index.js', `window.SEARCH_INDEX = ${JSON.stringify(searchIndex).replace(/</g, '\\u003c')};\n`);
+
+    logger?.info("✅ [SiteGeneration] Course site written", {
+      siteDir,
+      pageCount: pages.length,
+      totalSize,
+    });
+
+    return {
+      title: book.title,
+      format: 'site',
+      path: siteDir,
+      fileSize: totalSize,
+      chapterCount: book.chapters.length,
+      pageCount: pages.length,
+      generatedAt: generatedAt.toISOString(),
+    };
+  } catch (error) {
+    logger?.error("❌ [SiteGeneration] Error generating course site", {
+      title: book.title,
+      error: error instanceof Error ? error.message : String(error),
+    });
+
+    throw new Error(`Site generation failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+export const siteGenerationTool = createTool({
+  id: "site-generation-tool",
+  description: `Generates a static HTML course website with one page per section, chapter navigation, previous/next links and client-side search`,
+  inputSchema: z.object({
+    title: z.string().describe("The main title of the book"),
+    subtitle: z.string().optional().describe("Optional subtitle for the book"),
+    author: z.string().describe("The author name to display"),
+    language: z.string().default('en').describe("BCP 47 language tag of the content"),
+    chapters: z.array(z.object({
+      title: z.string().describe("Chapter title"),
+      sections: z.array(z.object({
+        title: z.string().describe("Section title"),
+        content: z.string().describe("Section content in Markdown"),
+      })).describe("Sections in reading order"),
+      appendix: z.boolean().optional().describe("Back matter such as an answer key; lettered as an appendix instead of numbered"),
+    })).describe("Array of chapters with their sections"),
+    index: z.array(bookIndexEntrySchema).optional().describe("Back-of-book index entries pointing at [text]{#id} anchors in the chapters; added as the last appendix, linked by section number"),
+    codeLineNumbers: z.boolean().optional().describe("Number the lines of every code block"),
+  }),
+  outputSchema: z.object({
+    title: z.string(),
+    format: z.string(),
+    path: z.string().describe("Directory containing index.html"),
+    fileSize: z.number(),
+    chapterCount: z.number(),
+    pageCount: z.number(),
+    generatedAt: z.string(),
+  }),
+  execute: async ({ context, mastra }) => {
+    const logger = mastra?.getLogger();
+    logger?.info("🔧 [SiteGeneration] Starting execution", {
+      title: context.title,
+      chapterCount: context.chapters.length,
+    });
+
+    return generateSite({
+      book: {
+        title: context.title,
+        subtitle: context.subtitle,
+        author: context.author,
+        language: context.language || 'en',
+        chapters: withIndexAppendix(context.chapters, context.index),
+        codeLineNumbers: context.codeLineNumbers,
+      },
+      logger,
+    });
+  },
+});
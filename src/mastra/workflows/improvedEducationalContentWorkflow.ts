@@ -1,15 +1,166 @@
 import { createWorkflow, createStep } from "../inngest";
 import { z } from "zod";
 import { RuntimeContext } from "@mastra/core/di";
-import { ideaGenerationAgent } from "../agents/ideaGenerationAgent";
+import type { IMastraLogger } from "@mastra/core/logger";
 import { writingAgent } from "../agents/writingAgent";
 import { reviewAgent } from "../agents/reviewAgent";
 import { pdfGenerationTool } from "../tools/pdfGenerationTool";
+import { epubGenerationTool } from "../tools/epubGenerationTool";
+import { docxGenerationTool } from "../tools/docxGenerationTool";
+import { siteGenerationTool } from "../tools/siteGenerationTool";
+import { scormPackageTool, SCORM_VERSIONS, type ScormVersion } from "../tools/scormPackageTool";
 import { chunkedContentGenerationTool } from "../tools/chunkedContentGenerationTool";
 import { progressTrackingTool } from "../tools/progressTrackingTool";
+import { emitWorkflowEvent } from "../events/workflowEvents";
+import {
+  chapterQuizSchema,
+  generateBookQuizzes,
+  renderAnswerKeyMarkdown,
+  renderQuizMarkdown,
+  type ChapterQuiz,
+} from "../assessment/chapterQuizzes";
+import {
+  chapterExerciseSetSchema,
+  generateBookExercises,
+  renderExercisesMarkdown,
+  renderSolutionsMarkdown,
+  type ChapterExerciseSet,
+} from "../assessment/chapterExercises";
+import {
+  buildGlossary,
+  glossaryEntrySchema,
+  linkFirstUses,
+  renderGlossarySections,
+  type GlossaryEntry,
+} from "../backmatter/glossary";
+import { anchorIndexTerms, buildIndexTerms, indexTermSchema, type IndexTerm } from "../backmatter/indexTerms";
+import type { BookIndexEntry } from "../export/bookIndex";
+import {
+  chapterOverviewSchema,
+  estimateReadingMinutes,
+  refreshChapterOverviews,
+  renderChapterCloser,
+  renderChapterOpener,
+  writeChapterSummary,
+} from "../planning/chapterOverview";
+import {
+  applyOutlineEdits,
+  generateStructuredOutline,
+  outlineEditSchema,
+  renderOutlineText,
+  toPlannedChapters,
+} from "../planning/outlineGeneration";
+import {
+  allocateWordBudgets,
+  createWordBudgetPlanner,
+  refreshWordBudgetReport,
+  wordBudgetReportSchema,
+} from "../planning/wordBudget";
+import {
+  bookReviewReportSchema,
+  buildChapterContent,
+  collectSectionIssues,
+  renderReviewReport,
+  REVIEW_MAX_REVISION_ROUNDS,
+  reviewBook,
+  reviseFlaggedSections,
+  sectionIssueSchema,
+  type SectionIssue,
+} from "../review/contentReview";
+import {
+  AI_MAX_CONCURRENT_REQUESTS,
+  CONTENT_CHAPTER_CONCURRENCY,
+  CONTENT_SECTION_CONCURRENCY,
+  mapWithConcurrency,
+} from "../scheduling/aiRequestScheduler";
+import {
+  BOOK_EXPORT_FORMATS,
+  bookExportSchema,
+  resolveExportFormats,
+  type BookExport,
+  type BookExportFormat,
+} from "../export/exportFormats";
+import {
+  editorCommentsToIssues,
+  editorialDecisionSchema,
+  recordedEditorialDecisionSchema,
+} from "../review/editorialDecision";
+import {
+  appendRunHistory,
+  copyCheckpoints,
+  findSectionCheckpoint,
+  loadChapterExercises,
+  loadChapterQuizzes,
+  loadGlossary,
+  loadIndexTerms,
+  loadOutlineCheckpoint,
+  loadSectionCheckpoints,
+  saveChapterExercises,
+  saveChapterQuizzes,
+  saveGlossary,
+  saveIndexTerms,
+  saveOutlineCheckpoint,
+  saveReviewReport,
+  saveSectionCheckpoint,
+  summarizeSavedContent,
+  type PlannedChapter,
+} from "../storage/contentCheckpoints";
 
 const runtimeContext = new RuntimeContext();
 
+const plannedOutlineSchema = z.object({
+  workflowId: z.string(),
+  topic: z.string(),
+  outline: z.string(),
+  chapters: z.array(z.object({
+    number: z.number(),
+    title: z.string(),
+    sections: z.array(z.string()),
+    sectionWordBudgets: z.array(z.number()),
+    targetWordCount: z.number(),
+    learningObjectives: z.array(z.string()),
+    prerequisites: z.array(z.string()),
+  })),
+  totalSections: z.number(),
+  progressInitialized: z.boolean(),
+});
+
+const generatedChapterSchema = z.object({
+  number: z.number(),
+  title: z.string(),
+  content: z.string(),
+  wordCount: z.number(),
+  sections: z.array(z.object({
+    title: z.string(),
+    content: z.string(),
+    wordCount: z.number(),
+    targetWordCount: z.number().optional(),
+    lengthDeviation: z.number().optional(),
+  })),
+  overview: chapterOverviewSchema,
+});
+
+// Carried through the revise-and-rereview loop, so the loop step's input and output match
+const reviewedContentSchema = z.object({
+  workflowId: z.string(),
+  topic: z.string(),
+  generatedChapters: z.array(generatedChapterSchema),
+  reviewSummary: z.string(),
+  qualityScore: z.number(),
+  approvedForPublication: z.boolean(),
+  sectionIssues: z.array(sectionIssueSchema),
+  revisionRound: z.number(),
+  bookReview: bookReviewReportSchema,
+  finalChapters: z.array(z.object({
+    title: z.string(),
+    content: z.string(),
+  })),
+  finalWordCount: z.number(),
+  wordBudget: wordBudgetReportSchema,
+  // Set once an editor has decided at the publication gate
+  editorDecision: recordedEditorialDecisionSchema.optional(),
+});
+
 // Step 1: Initialize progress tracking and generate outline
 const initializeAndPlanStep = createStep({
   id: "initialize-and-plan",
@@ -18,75 +169,82 @@ const initializeAndPlanStep = createStep({
     topic: z.string().default("Advanced JavaScript Programming").describe("Educational topic to create content for"),
     targetAudience: z.string().default("Intermediate developers").describe("Target audience for the educational content"),
     targetWordCount: z.number().default(60000).describe("Target total word count for the content"),
+    resumeFromWorkflowId: z.string().optional().describe("ID of an earlier run whose outline and finished sections should be reused"),
+    autoApproveOutline: z.boolean().optional().describe("Start writing without waiting for the outline to be approved"),
+    exportFormats: z.array(z.enum(BOOK_EXPORT_FORMATS)).optional().describe("Formats to export alongside the PDF (defaults to BOOK_EXPORT_FORMATS)"),
+    codeLineNumbers: z.boolean().optional().describe("Number the lines of every code block in the book"),
+    theme: z.string().optional().describe("PDF theme to lay the book out with, e.g. textbook, workbook, dummies-style or minimal (defaults to BOOK_THEME)"),
+    scormVersion: z.enum(SCORM_VERSIONS).optional().describe("SCORM version of the scorm export (defaults to SCORM_VERSION, then 1.2)"),
+    quizzes: z.boolean().optional().describe("Add an end-of-chapter quiz with an answer key at the back of the book (defaults to true)"),
+    exercises: z.boolean().optional().describe("Add practice exercises with hints to every chapter, with worked solutions at the back of the book or in the solutions export (defaults to true)"),
+    glossary: z.boolean().optional().describe("Add a glossary of key terms, linked from their first use (defaults to true)"),
+    index: z.boolean().optional().describe("Add a back-of-book index, with page numbers in the PDF (defaults to true)"),
   }),
-  outputSchema: z.object({
-    workflowId: z.string(),
-    topic: z.string(),
-    outline: z.string(),
-    chapters: z.array(z.object({
-      number: z.number(),
-      title: z.string(),
-      sections: z.array(z.string()),
-      targetWordCount: z.number(),
-    })),
-    totalSections: z.number(),
-    progressInitialized: z.boolean(),
-  }),
+  outputSchema: plannedOutlineSchema,
 
-  execute: async ({ inputData, mastra }) => {
+  execute: async ({ inputData, mastra, runId }) => {
     const logger = mastra?.getLogger();
-    const { topic, targetAudience, targetWordCount } = inputData;
-    const workflowId = `edu-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const { resumeFromWorkflowId } = inputData;
+    // Key progress by the Mastra run ID so the progress API can also read the run snapshot
+    const workflowId = runId;
+
+    // A resumed run reuses the earlier run's outline instead of generating a new one
+    const savedOutline = resumeFromWorkflowId ? loadOutlineCheckpoint(resumeFromWorkflowId) : null;
+    if (resumeFromWorkflowId && !savedOutline) {
+      throw new Error(`No saved outline found for workflow ${resumeFromWorkflowId}; it cannot be resumed`);
+    }
+    const { topic, targetAudience, targetWordCount } = savedOutline ?? inputData;
 
     logger?.info("🚀 [InitializePlan] Starting workflow initialization", { 
       workflowId,
       topic,
-      targetWordCount 
-    });
-
-    // Generate comprehensive outline
-    const outlinePrompt = `Create a comprehensive educational outline for "${topic}" for ${targetAudience}.
-    
-    This will be a detailed learning guide of ${targetWordCount ? targetWordCount.toLocaleString() : '60,000'} words total.
-    
-    Structure this as 8-12 chapters, each with 4-6 sections. Each section should be approximately 600-800 words.
-    
-    Format your response as:
-    
-    CHAPTER OUTLINE:
-    
-    Chapter 1: [Title]
-    - Section 1.1: [Title]
-    - Section 1.2: [Title]
-    - Section 1.3: [Title]
-    - Section 1.4: [Title]
-    
-    Chapter 2: [Title]
-    - Section 2.1: [Title]
-    - Section 2.2: [Title]
-    - Section 2.3: [Title]
-    - Section 2.4: [Title]
-    
-    Continue for all chapters...
-    
-    Include clear, descriptive titles that build from basic concepts to advanced applications.`;
-
-    const { text: outlineText } = await ideaGenerationAgent.generate([
-      { role: "user", content: outlinePrompt },
-    ], {
-      resourceId: "outline-generation",
-      threadId: workflowId,
-      maxSteps: 10,
-    });
-
-    // Parse the outline into structured data
-    const chapters = parseOutlineIntoChapters(outlineText, targetWordCount);
+      targetWordCount,
+      resumeFromWorkflowId,
+    });
+
+    let outlineText: string;
+    let chapters: PlannedChapter[];
+
+    if (savedOutline && resumeFromWorkflowId) {
+      copyCheckpoints(resumeFromWorkflowId, workflowId);
+      outlineText = savedOutline.outline;
+      chapters = savedOutline.chapters;
+
+      logger?.info("♻️ [InitializePlan] Reusing saved outline", {
+        workflowId,
+        resumeFromWorkflowId,
+        chapterCount: chapters.length,
+      });
+    } else {
+      // Fails the step rather than writing a book around a placeholder outline
+      const outline = await generateStructuredOutline({
+        topic,
+        targetAudience,
+        targetWordCount,
+        workflowId,
+        logger,
+      });
+
+      const plannedChapters = toPlannedChapters(outline);
+      // Without an explicit target, keep the total the outline itself proposed
+      chapters = allocateWordBudgets(
+        plannedChapters,
+        targetWordCount || plannedChapters.reduce((sum, chapter) => sum + chapter.targetWordCount, 0),
+      );
+      outlineText = renderOutlineText(chapters);
+      saveOutlineCheckpoint(workflowId, { topic, targetAudience, targetWordCount, outline: outlineText, chapters });
+    }
+
     const totalSections = chapters.reduce((sum, chapter) => sum + chapter.sections.length, 0);
 
+    // Count what a resumed run already has so progress starts from there
+    const saved = summarizeSavedContent(chapters, loadSectionCheckpoints(workflowId));
+
     logger?.info("📋 [InitializePlan] Outline generated", {
       workflowId,
       chapterCount: chapters.length,
       totalSections,
+      resumedSections: saved.sections,
     });
 
     // Initialize progress tracking
@@ -98,6 +256,14 @@ const initializeAndPlanStep = createStep({
         totalChapters: chapters.length,
         totalSections,
         targetWordCount,
+        chapters: chapters.map(chapter => ({
+          number: chapter.number,
+          title: chapter.title,
+          sectionCount: chapter.sections.length,
+        })),
+        resumedFrom: resumeFromWorkflowId,
+        completedSections: saved.sections,
+        totalWordsGenerated: saved.words,
       },
       runtimeContext,
       tracingContext: {},
@@ -119,381 +285,1262 @@ const initializeAndPlanStep = createStep({
   },
 });
 
-// Step 2: Generate content for all chapters using chunked approach
+// Step 2: Wait for the outline to be approved (and possibly edited) before writing
+const approveOutlineStep = createStep({
+  id: "approve-outline",
+  description: "Suspend until an editor approves or edits the outline, unless auto-approval is enabled",
+  inputSchema: plannedOutlineSchema,
+  outputSchema: plannedOutlineSchema,
+  suspendSchema: z.object({
+    workflowId: z.string(),
+    topic: z.string(),
+    chapters: plannedOutlineSchema.shape.chapters,
+  }),
+  resumeSchema: outlineEditSchema,
+
+  execute: async ({ inputData, mastra, resumeData, suspend, getInitData }) => {
+    const logger = mastra?.getLogger();
+    const { workflowId, topic, chapters } = inputData;
+    const savedOutline = loadOutlineCheckpoint(workflowId);
+    const { autoApproveOutline } = getInitData() ?? {};
+
+    if (!resumeData) {
+      // A resumed run carries over an outline that was already approved
+      if (savedOutline?.approvedAt || autoApproveOutline) {
+        if (savedOutline && !savedOutline.approvedAt) {
+          saveOutlineCheckpoint(workflowId, { ...savedOutline, approvedAt: new Date().toISOString(), approvedBy: 'auto-approval' });
+          appendRunHistory(workflowId, {
+            stepId: 'approve-outline',
+            kind: 'outline',
+            decision: 'approve',
+            reviewer: 'auto-approval',
+          });
+        }
+
+        logger?.info("✅ [ApproveOutline] Outline approved without review", {
+          workflowId,
+          reason: savedOutline?.approvedAt ? 'previously approved' : 'auto-approval',
+        });
+        return inputData;
+      }
+
+      await progressTrackingTool.execute({
+        context: {
+          action: 'update',
+          workflowId,
+          currentStep: 'Waiting for outline approval',
+          stepId: 'approve-outline',
+          awaitingApproval: 'approve-outline',
+        },
+        runtimeContext,
+        tracingContext: {},
+      });
+
+      emitWorkflowEvent(workflowId, {
+        type: 'approval-requested',
+        stepId: 'approve-outline',
+        kind: 'outline',
+      });
+
+      logger?.info("⏸️ [ApproveOutline] Suspending for outline approval", {
+        workflowId,
+        chapterCount: chapters.length,
+      });
+
+      await suspend({ workflowId, topic, chapters });
+      return inputData;
+    }
+
+    const approvedChapters = applyOutlineEdits(chapters, resumeData);
+    const outlineText = renderOutlineText(approvedChapters);
+    const totalSections = approvedChapters.reduce((sum, chapter) => sum + chapter.sections.length, 0);
+
+    if (savedOutline) {
+      saveOutlineCheckpoint(workflowId, {
+        ...savedOutline,
+        outline: outlineText,
+        chapters: approvedChapters,
+        approvedAt: new Date().toISOString(),
+        approvedBy: resumeData.approvedBy,
+      });
+    }
+    appendRunHistory(workflowId, {
+      stepId: 'approve-outline',
+      kind: 'outline',
+      decision: 'approve',
+      reviewer: resumeData.approvedBy,
+    });
+
+    await progressTrackingTool.execute({
+      context: {
+        action: 'update',
+        workflowId,
+        currentStep: 'Outline approved',
+        stepId: 'approve-outline',
+        approvalResolved: true,
+        totalChapters: approvedChapters.length,
+        totalSections,
+        chapters: approvedChapters.map(chapter => ({
+          number: chapter.number,
+          title: chapter.title,
+          sectionCount: chapter.sections.length,
+        })),
+      },
+      runtimeContext,
+      tracingContext: {},
+    });
+
+    logger?.info("✅ [ApproveOutline] Outline approved", {
+      workflowId,
+      approvedBy: resumeData.approvedBy,
+      chapterCount: approvedChapters.length,
+      totalSections,
+    });
+
+    return {
+      ...inputData,
+      outline: outlineText,
+      chapters: approvedChapters,
+      totalSections,
+    };
+  },
+});
+
+// Step 3: Generate content for all chapters using chunked approach
 const generateAllContentStep = createStep({
   id: "generate-all-content",
   description: "Generate all educational content using chunked, resumable approach",
-  inputSchema: z.object({
+  inputSchema: plannedOutlineSchema,
+  outputSchema: z.object({
     workflowId: z.string(),
     topic: z.string(),
-    outline: z.string(),
-    chapters: z.array(z.object({
-      number: z.number(),
-      title: z.string(),
-      sections: z.array(z.string()),
-      targetWordCount: z.number(),
-    })),
-    totalSections: z.number(),
-    progressInitialized: z.boolean(),
+    generatedChapters: z.array(generatedChapterSchema),
+    totalWordCount: z.number(),
+    wordBudget: wordBudgetReportSchema,
+    allContentGenerated: z.boolean(),
   }),
-  outputSchema: z.object({
+
+  execute: async ({ inputData, mastra }) => {
+    const logger = mastra?.getLogger();
+    const { workflowId, topic, outline, chapters } = inputData;
+
+    logger?.info("✍️ [GenerateContent] Starting chunked content generation", { 
+      workflowId,
+      chapterCount: chapters.length 
+    });
+
+    // Sections saved by an earlier attempt or a resumed run are reused, not regenerated
+    const checkpoints = loadSectionCheckpoints(workflowId);
+    // Budgets follow the target across the whole book, so each section's budget
+    // is worked out when it starts rather than fixed up front
+    const wordBudget = createWordBudgetPlanner(
+      chapters,
+      chapters.reduce((sum, chapter) => sum + chapter.targetWordCount, 0),
+    );
+    // Stops scheduling new sections anywhere in the book once one has failed
+    const abortController = new AbortController();
+
+    logger?.info("⚙️ [GenerateContent] Concurrency limits", {
+      chapters: CONTENT_CHAPTER_CONCURRENCY,
+      sectionsPerChapter: CONTENT_SECTION_CONCURRENCY,
+      aiRequests: AI_MAX_CONCURRENT_REQUESTS,
+    });
+
+    const generateSection = async (chapter: PlannedChapter, sectionIndex: number) => {
+      const sectionTitle = chapter.sections[sectionIndex];
+
+      const savedSection = findSectionCheckpoint(checkpoints, chapter.number, sectionIndex, sectionTitle);
+      if (savedSection) {
+        logger?.info("♻️ [GenerateContent] Reusing saved section", {
+          chapterNumber: chapter.number,
+          sectionIndex,
+          sectionTitle,
+          wordCount: savedSection.wordCount,
+        });
+
+        wordBudget.recordSection(chapter.number, sectionIndex, savedSection.wordCount);
+        return {
+          title: savedSection.title,
+          content: savedSection.content,
+          wordCount: savedSection.wordCount,
+          targetWordCount: savedSection.targetWordCount,
+          lengthDeviation: savedSection.lengthDeviation,
+        };
+      }
+
+      const targetWordsPerSection = wordBudget.budgetFor(chapter.number, sectionIndex);
+
+      logger?.info("📄 [GenerateContent] Generating section", {
+        chapterNumber: chapter.number,
+        sectionIndex,
+        sectionTitle,
+        targetWords: targetWordsPerSection
+      });
+
+      try {
+        const sectionResult = await chunkedContentGenerationTool.execute({
+          context: {
+            topic,
+            chapterTitle: chapter.title,
+            chapterNumber: chapter.number,
+            sectionTitles: chapter.sections,
+            targetWordsPerSection,
+            context: outline,
+            sectionIndex,
+            retryAttempts: 3,
+            workflowId,
+          },
+          runtimeContext,
+          tracingContext: {},
+        });
+
+        saveSectionCheckpoint(workflowId, {
+          chapterNumber: chapter.number,
+          sectionIndex,
+          title: sectionResult.sectionTitle,
+          content: sectionResult.content,
+          wordCount: sectionResult.wordCount,
+          targetWordCount: sectionResult.targetWords,
+          lengthDeviation: sectionResult.lengthDeviation,
+        });
+        wordBudget.recordSection(chapter.number, sectionIndex, sectionResult.wordCount);
+
+        logger?.info("✅ [GenerateContent] Section completed", {
+          chapterNumber: chapter.number,
+          sectionTitle,
+          wordCount: sectionResult.wordCount,
+          targetWords: sectionResult.targetWords,
+          lengthDeviation: sectionResult.lengthDeviation,
+        });
+
+        emitWorkflowEvent(workflowId, {
+          type: 'section-completed',
+          chapterNumber: chapter.number,
+          sectionIndex,
+          sectionTitle: sectionResult.sectionTitle,
+          wordCount: sectionResult.wordCount,
+        });
+
+        // Update progress after each section
+        await progressTrackingTool.execute({
+          context: {
+            action: 'update',
+            workflowId,
+            sectionCompleted: {
+              chapterNumber: chapter.number,
+              sectionIndex,
+              wordCount: sectionResult.wordCount,
+            },
+          },
+          runtimeContext,
+          tracingContext: {},
+        });
+
+        return {
+          title: sectionResult.sectionTitle,
+          content: sectionResult.content,
+          wordCount: sectionResult.wordCount,
+          targetWordCount: sectionResult.targetWords,
+          lengthDeviation: sectionResult.lengthDeviation,
+        };
+
+      } catch (error) {
+        abortController.abort();
+
+        logger?.error("❌ [GenerateContent] Section generation failed", {
+          chapterNumber: chapter.number,
+          sectionIndex,
+          sectionTitle,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        // Recorded once for the run where the first failure surfaces, below
+        throw new Error(
+          `Failed to generate section "${sectionTitle}": ${error instanceof Error ? error.message : String(error)}`,
+          { cause: error },
+        );
+      }
+    };
+
+    const generateChapter = async (chapter: PlannedChapter) => {
+      logger?.info("📝 [GenerateContent] Starting chapter", { 
+        chapterNumber: chapter.number,
+        title: chapter.title,
+        sectionCount: chapter.sections.length
+      });
+
+      // Update progress
+      await progressTrackingTool.execute({
+        context: {
+          action: 'update',
+          workflowId,
+          currentStep: `Generating Chapter ${chapter.number}: ${chapter.title}`,
+          stepId: 'generate-all-content',
+          chapterStarted: chapter.number,
+        },
+        runtimeContext,
+        tracingContext: {},
+      });
+
+      // Sections run concurrently but come back in outline order
+      const chapterSections = await mapWithConcurrency(
+        chapter.sections,
+        CONTENT_SECTION_CONCURRENCY,
+        (_sectionTitle, sectionIndex) => generateSection(chapter, sectionIndex),
+        abortController.signal,
+      );
+      const chapterWordCount = chapterSections.reduce((sum, section) => sum + section.wordCount, 0);
+
+      // Combine all sections into chapter content
+      const chapterContent = buildChapterContent(chapterSections);
+
+      // Update progress after completing chapter
+      await progressTrackingTool.execute({
+        context: {
+          action: 'update',
+          workflowId,
+          chapterCompleted: {
+            chapterNumber: chapter.number,
+            title: chapter.title,
+            wordCount: chapterWordCount,
+          },
+        },
+        runtimeContext,
+        tracingContext: {},
+      });
+
+      // The review asks for a summary again if this one can't be written
+      let summary = '';
+      try {
+        summary = await writeChapterSummary({
+          workflowId,
+          topic,
+          chapter: { number: chapter.number, title: chapter.title, content: chapterContent },
+          learningObjectives: chapter.learningObjectives,
+          logger,
+        });
+      } catch (error) {
+        logger?.warn("⚠️ [GenerateContent] Chapter summary failed", {
+          chapterNumber: chapter.number,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      logger?.info("✅ [GenerateContent] Chapter completed", {
+        chapterNumber: chapter.number,
+        title: chapter.title,
+        wordCount: chapterWordCount,
+      });
+
+      return {
+        number: chapter.number,
+        title: chapter.title,
+        content: chapterContent,
+        wordCount: chapterWordCount,
+        sections: chapterSections,
+        overview: {
+          learningObjectives: chapter.learningObjectives,
+          prerequisites: chapter.prerequisites,
+          readingTimeMinutes: estimateReadingMinutes(chapterWordCount),
+          summary,
+        },
+      };
+    };
+
+    let generatedChapters: Awaited<ReturnType<typeof generateChapter>>[];
+    try {
+      generatedChapters = await mapWithConcurrency(
+        chapters,
+        CONTENT_CHAPTER_CONCURRENCY,
+        generateChapter,
+        abortController.signal,
+      );
+    } catch (error) {
+      // Only the first failure is rethrown; sections that failed alongside it were just logged
+      const message = error instanceof Error ? error.message : String(error);
+
+      await progressTrackingTool.execute({
+        context: {
+          action: 'update',
+          workflowId,
+          error: message,
+        },
+        runtimeContext,
+        tracingContext: {},
+      });
+
+      await progressTrackingTool.execute({
+        context: {
+          action: 'fail',
+          workflowId,
+          error: message,
+        },
+        runtimeContext,
+        tracingContext: {},
+      });
+
+      throw error;
+    }
+    const totalWordCount = generatedChapters.reduce((sum, chapter) => sum + chapter.wordCount, 0);
+    const wordBudgetReport = wordBudget.report();
+
+    logger?.info("✅ [GenerateContent] All content generation completed", {
+      workflowId,
+      chapterCount: generatedChapters.length,
+      totalWordCount,
+      targetWordCount: wordBudgetReport.targetWordCount,
+      variancePercent: wordBudgetReport.variancePercent,
+    });
+
+    return {
+      workflowId,
+      topic,
+      generatedChapters,
+      totalWordCount,
+      wordBudget: wordBudgetReport,
+      allContentGenerated: true,
+    };
+  },
+});
+
+// Step 4: Review generated content
+const reviewContentStep = createStep({
+  id: "review-content-improved",
+  description: "Review and validate the generated educational content",
+  inputSchema: z.object({
     workflowId: z.string(),
     topic: z.string(),
-    generatedChapters: z.array(z.object({
-      number: z.number(),
-      title: z.string(),
-      content: z.string(),
-      wordCount: z.number(),
-      sections: z.array(z.object({
-        title: z.string(),
-        content: z.string(),
-        wordCount: z.number(),
-      })),
-    })),
+    generatedChapters: z.array(generatedChapterSchema),
     totalWordCount: z.number(),
+    wordBudget: wordBudgetReportSchema,
     allContentGenerated: z.boolean(),
   }),
+  outputSchema: reviewedContentSchema,
+
+  execute: async ({ inputData, mastra }) => {
+    const logger = mastra?.getLogger();
+    const { workflowId, topic, totalWordCount, wordBudget } = inputData;
+
+    logger?.info("🔍 [ReviewContent] Starting content review", { 
+      workflowId,
+      chapterCount: inputData.generatedChapters.length,
+      totalWordCount 
+    });
+
+    // Update progress
+    await progressTrackingTool.execute({
+      context: {
+        action: 'update',
+        workflowId,
+        currentStep: 'Reviewing generated content',
+        stepId: 'review-content-improved',
+      },
+      runtimeContext,
+      tracingContext: {},
+    });
+
+    const review = await reviewBook({
+      workflowId,
+      topic,
+      chapters: inputData.generatedChapters,
+      revisionRound: 0,
+      logger,
+    });
+    const generatedChapters = await refreshChapterOverviews({
+      workflowId,
+      topic,
+      chapters: inputData.generatedChapters,
+      report: review,
+      logger,
+    });
+    const sectionIssues = collectSectionIssues(review);
+    saveReviewReport(workflowId, review);
+
+    emitWorkflowEvent(workflowId, {
+      type: 'review-scored',
+      qualityScore: review.score,
+      approvedForPublication: review.approvedForPublication,
+      revisionRound: 0,
+      issueCount: sectionIssues.length,
+    });
+
+    // Prepare final chapters for PDF generation
+    const finalChapters = generatedChapters.map(chapter => ({
+      title: chapter.title,
+      content: chapter.content,
+    }));
+
+    logger?.info("✅ [ReviewContent] Review completed", {
+      workflowId,
+      qualityScore: review.score,
+      criteria: review.criteria,
+      approvedForPublication: review.approvedForPublication,
+      sectionIssues: sectionIssues.length,
+      finalWordCount: totalWordCount,
+    });
+
+    return {
+      workflowId,
+      topic,
+      generatedChapters,
+      reviewSummary: renderReviewReport(review),
+      qualityScore: review.score,
+      approvedForPublication: review.approvedForPublication,
+      sectionIssues,
+      revisionRound: 0,
+      bookReview: review,
+      finalChapters,
+      finalWordCount: totalWordCount,
+      wordBudget,
+    };
+  },
+});
+
+type ReviewedContent = z.infer<typeof reviewedContentSchema>;
+
+const quizzedContentSchema = reviewedContentSchema.extend({
+  quizzes: z.array(chapterQuizSchema),
+});
+
+const practiceContentSchema = quizzedContentSchema.extend({
+  exercises: z.array(chapterExerciseSetSchema),
+});
+
+const backMatterContentSchema = practiceContentSchema.extend({
+  glossary: z.array(glossaryEntrySchema),
+});
+
+const indexedContentSchema = backMatterContentSchema.extend({
+  indexTerms: z.array(indexTermSchema),
+});
+
+// Rewrites the sections behind `issues`, checkpoints them and reviews the book again
+const reviseAndReReview = async ({
+  content,
+  issues,
+  round,
+  logger,
+}: {
+  content: ReviewedContent;
+  issues: SectionIssue[];
+  round: number;
+  logger?: IMastraLogger;
+}): Promise<ReviewedContent> => {
+  const { workflowId, topic } = content;
+
+  const { chapters: revisedChapters, revisedSections } = await reviseFlaggedSections({
+    workflowId,
+    topic,
+    chapters: content.generatedChapters,
+    issues,
+    revisionRound: round,
+    logger,
+  });
+
+  // Keep checkpoints current so a resumed run starts from the revised text
+  for (const { chapterNumber, sectionIndex } of revisedSections) {
+    const section = revisedChapters.find(chapter => chapter.number === chapterNumber)!.sections[sectionIndex];
+    saveSectionCheckpoint(workflowId, {
+      chapterNumber,
+      sectionIndex,
+      title: section.title,
+      content: section.content,
+      wordCount: section.wordCount,
+      targetWordCount: section.targetWordCount,
+      lengthDeviation: section.lengthDeviation,
+    });
+  }
+
+  const finalWordCount = revisedChapters.reduce((sum, chapter) => sum + chapter.wordCount, 0);
+
+  const review = await reviewBook({
+    workflowId,
+    topic,
+    chapters: revisedChapters,
+    revisionRound: round,
+    previousReport: content.bookReview,
+    revisedSections,
+    logger,
+  });
+  const chapters = await refreshChapterOverviews({ workflowId, topic, chapters: revisedChapters, report: review, logger });
+  const remainingIssues = collectSectionIssues(review);
+  saveReviewReport(workflowId, review);
+
+  emitWorkflowEvent(workflowId, {
+    type: 'review-scored',
+    qualityScore: review.score,
+    approvedForPublication: review.approvedForPublication,
+    revisionRound: round,
+    issueCount: remainingIssues.length,
+  });
+
+  logger?.info("✅ [ReviseContent] Revision round completed", {
+    workflowId,
+    round,
+    revisedSections: revisedSections.length,
+    qualityScore: review.score,
+    approvedForPublication: review.approvedForPublication,
+    remainingIssues: remainingIssues.length,
+  });
+
+  return {
+    ...content,
+    generatedChapters: chapters,
+    reviewSummary: renderReviewReport(review),
+    qualityScore: review.score,
+    approvedForPublication: review.approvedForPublication,
+    sectionIssues: remainingIssues,
+    revisionRound: round,
+    bookReview: review,
+    finalChapters: chapters.map(chapter => ({
+      title: chapter.title,
+      content: chapter.content,
+    })),
+    finalWordCount,
+    wordBudget: refreshWordBudgetReport(content.wordBudget, chapters),
+  };
+};
+
+// Step 5: Revise flagged sections and review again (repeated by `.dountil` below)
+const reviseContentStep = createStep({
+  id: "revise-content",
+  description: "Rewrite the sections the reviewer flagged and re-review the book",
+  inputSchema: reviewedContentSchema,
+  outputSchema: reviewedContentSchema,
+
+  execute: async ({ inputData, mastra }) => {
+    const logger = mastra?.getLogger();
+    const { workflowId, sectionIssues, approvedForPublication, revisionRound } = inputData;
+
+    // The loop always runs once, so an approved or exhausted review passes straight through
+    if (approvedForPublication || sectionIssues.length === 0 || revisionRound >= REVIEW_MAX_REVISION_ROUNDS) {
+      logger?.info("⏭️ [ReviseContent] No revision needed", {
+        workflowId,
+        approvedForPublication,
+        sectionIssues: sectionIssues.length,
+        revisionRound,
+      });
+      return inputData;
+    }
+
+    const round = revisionRound + 1;
+
+    logger?.info("🛠️ [ReviseContent] Starting revision round", {
+      workflowId,
+      round,
+      maxRounds: REVIEW_MAX_REVISION_ROUNDS,
+      sectionIssues: sectionIssues.length,
+    });
+
+    await progressTrackingTool.execute({
+      context: {
+        action: 'update',
+        workflowId,
+        currentStep: `Revising flagged sections (round ${round} of ${REVIEW_MAX_REVISION_ROUNDS})`,
+        stepId: 'revise-content',
+      },
+      runtimeContext,
+      tracingContext: {},
+    });
+
+    return reviseAndReReview({ content: inputData, issues: sectionIssues, round, logger });
+  },
+});
+
+// Step 6: Let an editor decide on books the review did not approve outright
+const approvePublicationStep = createStep({
+  id: "approve-publication",
+  description: "Suspend for an editor to approve, reject or request revisions of a book the review did not approve",
+  inputSchema: reviewedContentSchema,
+  outputSchema: reviewedContentSchema,
+  suspendSchema: z.object({
+    workflowId: z.string(),
+    topic: z.string(),
+    qualityScore: z.number(),
+    approvedForPublication: z.boolean(),
+    approvalRationale: z.string(),
+    revisionRound: z.number(),
+    issueCount: z.number(),
+  }),
+  resumeSchema: editorialDecisionSchema,
+
+  execute: async ({ inputData, mastra, resumeData, suspend }) => {
+    const logger = mastra?.getLogger();
+    const { workflowId, topic, qualityScore, approvedForPublication, revisionRound, sectionIssues, bookReview } = inputData;
+
+    if (!resumeData) {
+      // Once an editor has asked for revisions they decide on the result too,
+      // even if the re-review approved it
+      if (approvedForPublication && !inputData.editorDecision) {
+        appendRunHistory(workflowId, {
+          stepId: 'approve-publication',
+          kind: 'publication',
+          decision: 'approve',
+          reviewer: 'automated-review',
+          comments: bookReview.approvalRationale,
+          qualityScore,
+          revisionRound,
+        });
+
+        logger?.info("✅ [ApprovePublication] Approved by review, no editor decision needed", {
+          workflowId,
+          qualityScore,
+        });
+        return inputData;
+      }
+
+      await progressTrackingTool.execute({
+        context: {
+          action: 'update',
+          workflowId,
+          currentStep: 'Waiting for an editor to decide on publication',
+          stepId: 'approve-publication',
+          awaitingApproval: 'approve-publication',
+        },
+        runtimeContext,
+        tracingContext: {},
+      });
+
+      emitWorkflowEvent(workflowId, {
+        type: 'approval-requested',
+        stepId: 'approve-publication',
+        kind: 'publication',
+      });
+
+      logger?.info("⏸️ [ApprovePublication] Suspending for editor decision", {
+        workflowId,
+        qualityScore,
+        approvedForPublication,
+        revisionRound,
+      });
+
+      await suspend({
+        workflowId,
+        topic,
+        qualityScore,
+        approvedForPublication,
+        approvalRationale: bookReview.approvalRationale,
+        revisionRound,
+        issueCount: sectionIssues.length,
+      });
+      return inputData;
+    }
+
+    const editorDecision = {
+      decision: resumeData.decision,
+      reviewer: resumeData.reviewer,
+      comments: resumeData.comments,
+      decidedAt: new Date().toISOString(),
+    };
 
-  execute: async ({ inputData, mastra }) => {
-    const logger = mastra?.getLogger();
-    const { workflowId, topic, outline, chapters } = inputData;
+    appendRunHistory(workflowId, {
+      stepId: 'approve-publication',
+      kind: 'publication',
+      decision: resumeData.decision,
+      reviewer: resumeData.reviewer,
+      comments: resumeData.comments,
+      qualityScore,
+      revisionRound,
+    });
 
-    logger?.info("✍️ [GenerateContent] Starting chunked content generation", { 
+    await progressTrackingTool.execute({
+      context: {
+        action: 'update',
+        workflowId,
+        currentStep: resumeData.decision === 'request-revisions'
+          ? `Revising content for ${resumeData.reviewer}`
+          : `Publication ${resumeData.decision === 'approve' ? 'approved' : 'rejected'} by ${resumeData.reviewer}`,
+        stepId: 'approve-publication',
+        approvalResolved: true,
+      },
+      runtimeContext,
+      tracingContext: {},
+    });
+
+    logger?.info("🧑‍⚖️ [ApprovePublication] Editor decision recorded", {
       workflowId,
-      chapterCount: chapters.length 
+      decision: resumeData.decision,
+      reviewer: resumeData.reviewer,
     });
 
-    const generatedChapters = [];
-    let totalWordCount = 0;
-    let completedSections = 0;
+    if (resumeData.decision !== 'request-revisions') {
+      return {
+        ...inputData,
+        approvedForPublication: resumeData.decision === 'approve',
+        editorDecision,
+      };
+    }
 
-    // Generate content for each chapter
-    for (const chapter of chapters) {
-      logger?.info("📝 [GenerateContent] Starting chapter", { 
-        chapterNumber: chapter.number,
-        title: chapter.title,
-        sectionCount: chapter.sections.length
-      });
+    const issues = editorCommentsToIssues(resumeData, sectionIssues, inputData.generatedChapters);
+    if (issues.length === 0) {
+      // Nothing to point the writer at; ask the editor again rather than guess
+      logger?.warn("⚠️ [ApprovePublication] Revision request matched no sections", { workflowId });
+      return { ...inputData, editorDecision };
+    }
 
-      // Update progress
-      await progressTrackingTool.execute({
-        context: {
-          action: 'update',
-          workflowId,
-          currentStep: `Generating Chapter ${chapter.number}: ${chapter.title}`,
-          completedSections,
-        },
-        runtimeContext,
-        tracingContext: {},
-      });
+    const revised = await reviseAndReReview({ content: inputData, issues, round: revisionRound + 1, logger });
+    return { ...revised, editorDecision };
+  },
+});
 
-      const targetWordsPerSection = Math.floor(chapter.targetWordCount / chapter.sections.length);
-      const chapterSections = [];
-      let chapterWordCount = 0;
+interface BookMetadata {
+  title: string;
+  subtitle: string;
+  author: string;
+}
 
-      // Generate each section of the chapter
-      for (let sectionIndex = 0; sectionIndex < chapter.sections.length; sectionIndex++) {
-        const sectionTitle = chapter.sections[sectionIndex];
-        
-        logger?.info("📄 [GenerateContent] Generating section", {
-          chapterNumber: chapter.number,
-          sectionIndex,
-          sectionTitle,
-          targetWords: targetWordsPerSection
-        });
+interface BookChapter {
+  title: string;
+  sections: { title: string; content: string }[];
+  appendix?: boolean;
+}
+
+// Chapters as every format lays them out, with the index that points into them:
+// each chapter opens with its objectives and closes with its summary, exercises
+// and quiz, the first use of each glossary term links to its entry, index terms
+// are anchored where they're discussed, and the answer key, exercise solutions
+// (unless they go in a separate solutions manual) and glossary follow as
+// appendices. The formats append the index themselves.
+const buildBookChapters = ({
+  chapters,
+  quizzes,
+  exercises,
+  glossary,
+  indexTerms,
+  separateSolutions,
+}: {
+  chapters: ReviewedContent['generatedChapters'];
+  quizzes: ChapterQuiz[];
+  exercises: ChapterExerciseSet[];
+  glossary: GlossaryEntry[];
+  indexTerms: IndexTerm[];
+  separateSolutions: boolean;
+}): { chapters: BookChapter[]; index: BookIndexEntry[] } => {
+  const { sections: linkedSections, index } = anchorIndexTerms(
+    linkFirstUses(
+      chapters.flatMap(chapter => chapter.sections.map(section => ({
+        chapterNumber: chapter.number,
+        title: section.title,
+        content: section.content,
+      }))),
+      glossary,
+    ),
+    indexTerms,
+  );
+
+  const bookChapters: BookChapter[] = chapters.map(chapter => {
+    const quiz = quizzes.find(q => q.chapterNumber === chapter.number);
+    const exerciseSet = exercises.find(set => set.chapterNumber === chapter.number);
+    return {
+      title: chapter.title,
+      sections: [
+        { title: 'Chapter Overview', content: renderChapterOpener(chapter.overview) },
+        ...linkedSections
+          .filter(section => section.chapterNumber === chapter.number)
+          .map(section => ({ title: section.title, content: section.content })),
+        { title: 'Chapter Summary', content: renderChapterCloser(chapter.overview) },
+        ...(exerciseSet ? [{
+          title: 'Practice Exercises',
+          content: renderExercisesMarkdown(exerciseSet, separateSolutions ? 'the solutions manual' : 'the Exercise Solutions appendix'),
+        }] : []),
+        ...(quiz ? [{ title: 'Chapter Quiz', content: renderQuizMarkdown(quiz) }] : []),
+      ],
+    };
+  });
+
+  if (quizzes.length > 0) {
+    bookChapters.push({
+      title: 'Answer Key',
+      appendix: true,
+      sections: quizzes.map(quiz => ({
+        title: `Chapter ${quiz.chapterNumber}: ${quiz.title}`,
+        content: renderAnswerKeyMarkdown(quiz),
+      })),
+    });
+  }
+  if (exercises.length > 0 && !separateSolutions) {
+    bookChapters.push({
+      title: 'Exercise Solutions',
+      appendix: true,
+      sections: exercises.map(set => ({
+        title: `Chapter ${set.chapterNumber}: ${set.title}`,
+        content: renderSolutionsMarkdown(set),
+      })),
+    });
+  }
+  if (glossary.length > 0) {
+    bookChapters.push({
+      title: 'Glossary',
+      appendix: true,
+      sections: renderGlossarySections(glossary),
+    });
+  }
+
+  return { chapters: bookChapters, index };
+};
+
+// The instructor's solutions manual: every chapter, so the numbering matches the
+// book, with each exercise's task and worked solution
+const buildSolutionsManualChapters = (
+  chapters: ReviewedContent['generatedChapters'],
+  exercises: ChapterExerciseSet[],
+): BookChapter[] =>
+  chapters.map(chapter => {
+    const exerciseSet = exercises.find(set => set.chapterNumber === chapter.number);
+    return {
+      title: chapter.title,
+      sections: [{
+        title: 'Worked Solutions',
+        content: exerciseSet
+          ? renderSolutionsMarkdown(exerciseSet, { includeTasks: true })
+          : '*This chapter has no exercises.*',
+      }],
+    };
+  });
+
+interface BookRenderOptions {
+  codeLineNumbers?: boolean;
+  scormVersion?: ScormVersion;
+}
 
-        try {
-          const sectionResult = await chunkedContentGenerationTool.execute({
+// Produces the optional exports requested for the run. A failed export is logged
+// and left out rather than failing a book whose PDF is already done.
+const generateBookExports = async ({
+  workflowId,
+  formats,
+  metadata,
+  renderOptions,
+  theme,
+  chapters,
+  index,
+  solutionsManual,
+  logger,
+}: {
+  workflowId: string;
+  formats: BookExportFormat[];
+  metadata: BookMetadata;
+  renderOptions: BookRenderOptions;
+  theme?: string;
+  chapters: BookChapter[];
+  index: BookIndexEntry[];
+  solutionsManual: BookChapter[];
+  logger?: IMastraLogger;
+}): Promise<BookExport[]> => {
+  const exports: BookExport[] = [];
+
+  for (const format of formats) {
+    try {
+      switch (format) {
+        case 'epub': {
+          const result = await epubGenerationTool.execute({
             context: {
-              topic,
-              chapterTitle: chapter.title,
-              chapterNumber: chapter.number,
-              sectionTitles: chapter.sections,
-              targetWordsPerSection,
-              context: outline,
-              sectionIndex,
-              retryAttempts: 3,
-              workflowId,
+              ...metadata,
+              ...renderOptions,
+              language: 'en',
+              chapters,
+              index,
             },
             runtimeContext,
             tracingContext: {},
           });
-
-          chapterSections.push({
-            title: sectionResult.sectionTitle,
-            content: sectionResult.content,
-            wordCount: sectionResult.wordCount,
-          });
-
-          chapterWordCount += sectionResult.wordCount;
-          completedSections++;
-
-          logger?.info("✅ [GenerateContent] Section completed", {
-            sectionTitle,
-            wordCount: sectionResult.wordCount,
-            completedSections,
-          });
-
-          // Update progress after each section
-          await progressTrackingTool.execute({
+          exports.push({ format, path: result.path, fileSize: result.fileSize });
+          break;
+        }
+        case 'docx': {
+          const result = await docxGenerationTool.execute({
             context: {
-              action: 'update',
-              workflowId,
-              completedSections,
-              totalWordsGenerated: totalWordCount + chapterWordCount,
+              ...metadata,
+              language: 'en',
+              chapters,
+              index,
             },
             runtimeContext,
             tracingContext: {},
           });
-
-        } catch (error) {
-          logger?.error("❌ [GenerateContent] Section generation failed", {
-            chapterNumber: chapter.number,
-            sectionIndex,
-            sectionTitle,
-            error: error instanceof Error ? error.message : String(error),
+          exports.push({ format, path: result.path, fileSize: result.fileSize });
+          break;
+        }
+        case 'site': {
+          const result = await siteGenerationTool.execute({
+            context: {
+              ...metadata,
+              ...renderOptions,
+              language: 'en',
+              chapters,
+              index,
+            },
+            runtimeContext,
+            tracingContext: {},
           });
-
-          // Record error in progress tracking
-          await progressTrackingTool.execute({
+          exports.push({ format, path: result.path, fileSize: result.fileSize });
+          break;
+        }
+        case 'scorm': {
+          const result = await scormPackageTool.execute({
             context: {
-              action: 'update',
-              workflowId,
-              error: `Failed to generate section "${sectionTitle}": ${error instanceof Error ? error.message : String(error)}`,
+              ...metadata,
+              codeLineNumbers: renderOptions.codeLineNumbers,
+              version: renderOptions.scormVersion,
+              language: 'en',
+              chapters,
+              index,
             },
             runtimeContext,
             tracingContext: {},
           });
-
-          await progressTrackingTool.execute({
+          exports.push({ format, path: result.path, fileSize: result.fileSize });
+          break;
+        }
+        case 'solutions': {
+          const result = await pdfGenerationTool.execute({
             context: {
-              action: 'fail',
-              workflowId,
-              error: `Failed to generate section "${sectionTitle}": ${error instanceof Error ? error.message : String(error)}`,
+              title: `${metadata.title}: Solutions Manual`,
+              subtitle: "Worked Solutions for Instructors",
+              author: metadata.author,
+              codeLineNumbers: renderOptions.codeLineNumbers,
+              theme,
+              chapters: solutionsManual,
             },
             runtimeContext,
             tracingContext: {},
           });
-
-          throw error;
+          exports.push({ format, path: result.path, fileSize: result.fileSize });
+          break;
         }
       }
-
-      // Combine all sections into chapter content
-      const chapterContent = chapterSections.map(section => 
-        `## ${section.title}\n\n${section.content}`
-      ).join('\n\n');
-
-      generatedChapters.push({
-        number: chapter.number,
-        title: chapter.title,
-        content: chapterContent,
-        wordCount: chapterWordCount,
-        sections: chapterSections,
+    } catch (error) {
+      logger?.warn("⚠️ [GeneratePDF] Optional export failed", {
+        workflowId,
+        format,
+        error: error instanceof Error ? error.message : String(error),
       });
+    }
+  }
 
-      totalWordCount += chapterWordCount;
+  return exports;
+};
 
-      // Update progress after completing chapter
-      await progressTrackingTool.execute({
-        context: {
-          action: 'update',
-          workflowId,
-          completedChapters: generatedChapters.length,
-          totalWordsGenerated: totalWordCount,
-          chapterCompleted: {
-            chapterNumber: chapter.number,
-            title: chapter.title,
-            wordCount: chapterWordCount,
-          },
-        },
-        runtimeContext,
-        tracingContext: {},
-      });
+// Step 7: Write an end-of-chapter quiz for every chapter of an approved book.
+// Runs after the last revision so the questions match the published text.
+const generateQuizzesStep = createStep({
+  id: "generate-quizzes",
+  description: "Generate end-of-chapter quizzes with answer keys from the final chapters",
+  inputSchema: reviewedContentSchema,
+  outputSchema: quizzedContentSchema,
 
-      logger?.info("✅ [GenerateContent] Chapter completed", {
-        chapterNumber: chapter.number,
-        title: chapter.title,
-        wordCount: chapterWordCount,
-        totalWordCount,
-      });
+  execute: async ({ inputData, mastra, getInitData }) => {
+    const logger = mastra?.getLogger();
+    const { workflowId, topic, generatedChapters, approvedForPublication } = inputData;
+    const { quizzes: quizzesEnabled = true } = getInitData() ?? {};
+
+    if (!approvedForPublication || !quizzesEnabled) {
+      return { ...inputData, quizzes: [] };
     }
 
-    logger?.info("✅ [GenerateContent] All content generation completed", {
+    logger?.info("📝 [GenerateQuizzes] Starting quiz generation", {
       workflowId,
       chapterCount: generatedChapters.length,
-      totalWordCount,
     });
 
-    return {
+    await progressTrackingTool.execute({
+      context: {
+        action: 'update',
+        workflowId,
+        currentStep: 'Generating chapter quizzes',
+        stepId: 'generate-quizzes',
+      },
+      runtimeContext,
+      tracingContext: {},
+    });
+
+    const quizzes = await generateBookQuizzes({
       workflowId,
       topic,
-      generatedChapters,
-      totalWordCount,
-      allContentGenerated: true,
-    };
+      chapters: generatedChapters,
+      savedQuizzes: loadChapterQuizzes(workflowId),
+      logger,
+    });
+    saveChapterQuizzes(workflowId, quizzes);
+
+    logger?.info("✅ [GenerateQuizzes] Quizzes generated", {
+      workflowId,
+      quizCount: quizzes.length,
+      questionCount: quizzes.reduce((sum, quiz) => sum + quiz.questions.length, 0),
+    });
+
+    return { ...inputData, quizzes };
   },
 });
 
-// Step 3: Review generated content
-const reviewContentStep = createStep({
-  id: "review-content-improved",
-  description: "Review and validate the generated educational content",
-  inputSchema: z.object({
-    workflowId: z.string(),
-    topic: z.string(),
-    generatedChapters: z.array(z.object({
-      number: z.number(),
-      title: z.string(),
-      content: z.string(),
-      wordCount: z.number(),
-      sections: z.array(z.object({
-        title: z.string(),
-        content: z.string(),
-        wordCount: z.number(),
-      })),
-    })),
-    totalWordCount: z.number(),
-    allContentGenerated: z.boolean(),
-  }),
-  outputSchema: z.object({
-    workflowId: z.string(),
-    topic: z.string(),
-    reviewSummary: z.string(),
-    qualityScore: z.number(),
-    approvedForPublication: z.boolean(),
-    finalChapters: z.array(z.object({
-      title: z.string(),
-      content: z.string(),
-    })),
-    finalWordCount: z.number(),
-  }),
+// Step 8: Write practice exercises with hints and worked solutions for every
+// chapter of an approved book, from the same final text as the quizzes
+const generateExercisesStep = createStep({
+  id: "generate-exercises",
+  description: "Generate practice exercises with difficulty levels, hints and worked solutions from the final chapters",
+  inputSchema: quizzedContentSchema,
+  outputSchema: practiceContentSchema,
 
-  execute: async ({ inputData, mastra }) => {
+  execute: async ({ inputData, mastra, getInitData }) => {
     const logger = mastra?.getLogger();
-    const { workflowId, topic, generatedChapters, totalWordCount } = inputData;
+    const { workflowId, topic, generatedChapters, approvedForPublication } = inputData;
+    const { exercises: exercisesEnabled = true } = getInitData() ?? {};
 
-    logger?.info("🔍 [ReviewContent] Starting content review", { 
+    if (!approvedForPublication || !exercisesEnabled) {
+      return { ...inputData, exercises: [] };
+    }
+
+    logger?.info("🏋️ [GenerateExercises] Starting exercise generation", {
       workflowId,
       chapterCount: generatedChapters.length,
-      totalWordCount 
     });
 
-    // Update progress
     await progressTrackingTool.execute({
       context: {
         action: 'update',
         workflowId,
-        currentStep: 'Reviewing generated content',
+        currentStep: 'Writing practice exercises',
+        stepId: 'generate-exercises',
       },
       runtimeContext,
       tracingContext: {},
     });
 
-    // Create summary for review
-    const contentSummary = generatedChapters.map(chapter => 
-      `Chapter ${chapter.number}: ${chapter.title} (${chapter.wordCount} words, ${chapter.sections.length} sections)`
-    ).join('\n');
+    const exercises = await generateBookExercises({
+      workflowId,
+      topic,
+      chapters: generatedChapters,
+      savedExercises: loadChapterExercises(workflowId),
+      logger,
+    });
+    saveChapterExercises(workflowId, exercises);
 
-    // Sample content for review (first chapter content, truncated)
-    const sampleContent = generatedChapters[0]?.content.substring(0, 3000) || "";
+    logger?.info("✅ [GenerateExercises] Exercises generated", {
+      workflowId,
+      chapterCount: exercises.length,
+      exerciseCount: exercises.reduce((sum, set) => sum + set.exercises.length, 0),
+    });
 
-    const reviewPrompt = `Review this educational content for "${topic}":
+    return { ...inputData, exercises };
+  },
+});
 
-CONTENT SUMMARY:
-${contentSummary}
+// Step 9: Collect the terms the book defines into a glossary
+const buildGlossaryStep = createStep({
+  id: "build-glossary",
+  description: "Extract, deduplicate and merge the key terms defined across the book",
+  inputSchema: practiceContentSchema,
+  outputSchema: backMatterContentSchema,
 
-TOTAL WORD COUNT: ${totalWordCount ? totalWordCount.toLocaleString() : '0'} words
+  execute: async ({ inputData, mastra, getInitData }) => {
+    const logger = mastra?.getLogger();
+    const { workflowId, topic, generatedChapters, approvedForPublication } = inputData;
+    const { glossary: glossaryEnabled = true } = getInitData() ?? {};
 
-SAMPLE CONTENT (First Chapter):
-${sampleContent}...
+    if (!approvedForPublication || !glossaryEnabled) {
+      return { ...inputData, glossary: [] };
+    }
 
-Evaluate:
-1. ACCURACY: Are concepts correct and well-explained?
-2. CLARITY: Is content clear and appropriate for the target audience?
-3. PROGRESSION: Does content build logically?
-4. COMPLETENESS: Are there gaps or missing topics?
-5. ENGAGEMENT: Is content engaging and accessible?
-6. CONSISTENCY: Is tone and style consistent?
+    // A retried step reuses the glossary it already built
+    const savedGlossary = loadGlossary(workflowId);
+    if (savedGlossary) {
+      return { ...inputData, glossary: savedGlossary };
+    }
 
-Provide:
-- Overall quality score (1-10)
-- Strengths and improvements needed
-- Approval recommendation (approve/needs revision)
-- Word count assessment (is ${totalWordCount ? totalWordCount.toLocaleString() : '0'} words appropriate?)`;
+    logger?.info("📖 [BuildGlossary] Starting glossary extraction", {
+      workflowId,
+      chapterCount: generatedChapters.length,
+    });
 
-    const { text: reviewText } = await reviewAgent.generate([
-      { role: "user", content: reviewPrompt },
-    ], {
-      resourceId: "content-review",
-      threadId: `review-${workflowId}`,
-      maxSteps: 8,
+    await progressTrackingTool.execute({
+      context: {
+        action: 'update',
+        workflowId,
+        currentStep: 'Building glossary',
+        stepId: 'build-glossary',
+      },
+      runtimeContext,
+      tracingContext: {},
     });
 
-    // Extract quality score
-    const scoreMatch = reviewText.match(/quality score[:\s]*(\d+(?:\.\d+)?)/i);
-    const qualityScore = scoreMatch ? parseFloat(scoreMatch[1]) : 7.5;
+    const glossary = await buildGlossary({ workflowId, topic, chapters: generatedChapters, logger });
+    saveGlossary(workflowId, glossary);
 
-    // Determine approval
-    const approvedForPublication = qualityScore >= 7.0 && 
-      !reviewText.toLowerCase().includes('not approved') &&
-      !reviewText.toLowerCase().includes('needs major revision');
+    logger?.info("✅ [BuildGlossary] Glossary built", { workflowId, termCount: glossary.length });
 
-    // Prepare final chapters for PDF generation
-    const finalChapters = generatedChapters.map(chapter => ({
-      title: chapter.title,
-      content: chapter.content,
-    }));
+    return { ...inputData, glossary };
+  },
+});
 
-    logger?.info("✅ [ReviewContent] Review completed", {
+// Step 10: Pick the book's index terms; they're anchored in the text when the book is laid out
+const buildIndexStep = createStep({
+  id: "build-index",
+  description: "Pick the index-worthy terms of each chapter and merge them into a two-level index",
+  inputSchema: backMatterContentSchema,
+  outputSchema: indexedContentSchema,
+
+  execute: async ({ inputData, mastra, getInitData }) => {
+    const logger = mastra?.getLogger();
+    const { workflowId, topic, generatedChapters, approvedForPublication } = inputData;
+    const { index: indexEnabled = true } = getInitData() ?? {};
+
+    if (!approvedForPublication || !indexEnabled) {
+      return { ...inputData, indexTerms: [] };
+    }
+
+    // A retried step reuses the terms it already picked
+    const savedTerms = loadIndexTerms(workflowId);
+    if (savedTerms) {
+      return { ...inputData, indexTerms: savedTerms };
+    }
+
+    logger?.info("🗂️ [BuildIndex] Starting index term extraction", {
       workflowId,
-      qualityScore,
-      approvedForPublication,
-      finalWordCount: totalWordCount,
+      chapterCount: generatedChapters.length,
     });
 
-    return {
-      workflowId,
-      topic,
-      reviewSummary: reviewText,
-      qualityScore,
-      approvedForPublication,
-      finalChapters,
-      finalWordCount: totalWordCount,
-    };
+    await progressTrackingTool.execute({
+      context: {
+        action: 'update',
+        workflowId,
+        currentStep: 'Building index',
+        stepId: 'build-index',
+      },
+      runtimeContext,
+      tracingContext: {},
+    });
+
+    const indexTerms = await buildIndexTerms({ workflowId, topic, chapters: generatedChapters, logger });
+    saveIndexTerms(workflowId, indexTerms);
+
+    logger?.info("✅ [BuildIndex] Index terms picked", { workflowId, termCount: indexTerms.length });
+
+    return { ...inputData, indexTerms };
   },
 });
 
-// Step 4: Generate final PDF
+// Step 11: Generate final PDF
 const generateFinalPDFStep = createStep({
   id: "generate-final-pdf",
   description: "Generate the final PDF book from reviewed content",
-  inputSchema: z.object({
-    workflowId: z.string(),
-    topic: z.string(),
-    reviewSummary: z.string(),
-    qualityScore: z.number(),
-    approvedForPublication: z.boolean(),
-    finalChapters: z.array(z.object({
-      title: z.string(),
-      content: z.string(),
-    })),
-    finalWordCount: z.number(),
-  }),
+  inputSchema: indexedContentSchema,
   outputSchema: z.object({
     workflowId: z.string(),
     topic: z.string(),
     bookGenerated: z.boolean(),
     bookPath: z.string().optional(),
     fileSize: z.number().optional(),
+    exports: z.array(bookExportSchema).optional(),
     finalWordCount: z.number(),
+    wordBudget: wordBudgetReportSchema,
     qualityScore: z.number(),
     completedAt: z.string(),
   }),
 
-  execute: async ({ inputData, mastra }) => {
+  execute: async ({ inputData, mastra, getInitData }) => {
     const logger = mastra?.getLogger();
-    const { workflowId, topic, finalChapters, approvedForPublication, qualityScore, finalWordCount } = inputData;
+    const { workflowId, topic, finalChapters, approvedForPublication, qualityScore, finalWordCount, wordBudget, revisionRound, editorDecision, quizzes, exercises, glossary, indexTerms } = inputData;
+    const { exportFormats, codeLineNumbers, theme, scormVersion } = getInitData() ?? {};
+    const renderOptions: BookRenderOptions = { codeLineNumbers, scormVersion };
 
     logger?.info("📚 [GeneratePDF] Starting final PDF generation", { 
       workflowId,
@@ -507,6 +1554,7 @@ const generateFinalPDFStep = createStep({
         action: 'update',
         workflowId,
         currentStep: 'Generating final PDF',
+        stepId: 'generate-final-pdf',
       },
       runtimeContext,
       tracingContext: {},
@@ -515,14 +1563,18 @@ const generateFinalPDFStep = createStep({
     if (!approvedForPublication) {
       logger?.warn("📚 [GeneratePDF] Content not approved for publication", { 
         workflowId,
-        qualityScore 
+        qualityScore,
+        revisionRound,
+        rejectedBy: editorDecision?.reviewer,
       });
 
       await progressTrackingTool.execute({
         context: {
           action: 'fail',
           workflowId,
-          error: `Content not approved for publication (quality score: ${qualityScore})`,
+          error: editorDecision?.decision === 'reject'
+            ? `Publication rejected by ${editorDecision.reviewer}${editorDecision.comments ? `: ${editorDecision.comments}` : ''} (quality score: ${qualityScore})`
+            : `Content not approved for publication after ${revisionRound} revision round(s) (quality score: ${qualityScore})`,
         },
         runtimeContext,
         tracingContext: {},
@@ -533,29 +1585,64 @@ const generateFinalPDFStep = createStep({
         topic,
         bookGenerated: false,
         finalWordCount,
+        wordBudget,
         qualityScore,
         completedAt: new Date().toISOString(),
       };
     }
 
+    const metadata: BookMetadata = {
+      title: `The Complete Guide to ${topic}`,
+      subtitle: "A Comprehensive Educational Resource",
+      author: "AI Educational Content System",
+    };
+
+    // A solutions export only makes sense when there are exercises to solve
+    const formats = resolveExportFormats(exportFormats)
+      .filter(format => format !== 'solutions' || exercises.length > 0);
+    const { chapters, index } = buildBookChapters({
+      chapters: inputData.generatedChapters,
+      quizzes,
+      exercises,
+      glossary,
+      indexTerms,
+      separateSolutions: formats.includes('solutions'),
+    });
+
     try {
       // Generate the PDF
       const pdfResult = await pdfGenerationTool.execute({
         context: {
-          title: `The Complete Guide to ${topic}`,
-          subtitle: "A Comprehensive Educational Resource",
-          author: "AI Educational Content System",
-          chapters: finalChapters,
+          ...metadata,
+          ...renderOptions,
+          theme,
+          chapters,
+          index,
         },
         runtimeContext,
         tracingContext: {},
       });
 
+      const exports = await generateBookExports({
+        workflowId,
+        formats,
+        metadata,
+        renderOptions,
+        theme,
+        chapters,
+        index,
+        solutionsManual: buildSolutionsManualChapters(inputData.generatedChapters, exercises),
+        logger,
+      });
+
       // Mark workflow as completed
       await progressTrackingTool.execute({
         context: {
           action: 'complete',
           workflowId,
+          bookPath: pdfResult.path,
+          fileSize: pdfResult.fileSize,
+          exports,
         },
         runtimeContext,
         tracingContext: {},
@@ -565,6 +1652,7 @@ const generateFinalPDFStep = createStep({
         workflowId,
         path: pdfResult.path,
         fileSize: pdfResult.fileSize,
+        exports: exports.map(bookExport => bookExport.format),
         finalWordCount,
       });
 
@@ -574,7 +1662,9 @@ const generateFinalPDFStep = createStep({
         bookGenerated: true,
         bookPath: pdfResult.path,
         fileSize: pdfResult.fileSize,
+        exports,
         finalWordCount,
+        wordBudget,
         qualityScore,
         completedAt: new Date().toISOString(),
       };
@@ -600,76 +1690,6 @@ const generateFinalPDFStep = createStep({
   },
 });
 
-// Helper function to parse outline into structured chapters
-function parseOutlineIntoChapters(outlineText: string, targetWordCount: number): Array<{
-  number: number;
-  title: string;
-  sections: string[];
-  targetWordCount: number;
-}> {
-  const chapters: Array<{
-    number: number;
-    title: string;
-    sections: string[];
-    targetWordCount: number;
-  }> = [];
-  const lines = outlineText.split('\n');
-  let currentChapter: {
-    number: number;
-    title: string;
-    sections: string[];
-    targetWordCount: number;
-  } | null = null;
-  let chapterNumber = 1;
-
-  // Calculate target words per chapter
-  const estimatedChapters = 10; // Default estimate
-  const wordsPerChapter = Math.floor(targetWordCount / estimatedChapters);
-
-  for (const line of lines) {
-    const trimmedLine = line.trim();
-    
-    // Match chapter lines (e.g., "Chapter 1: Title" or "1. Title")
-    const chapterMatch = trimmedLine.match(/^(?:Chapter\s+)?(\d+)[:\.\s]+(.+)$/i);
-    if (chapterMatch && !trimmedLine.startsWith('-')) {
-      if (currentChapter) {
-        chapters.push(currentChapter);
-      }
-      
-      currentChapter = {
-        number: chapterNumber++,
-        title: chapterMatch[2].trim(),
-        sections: [],
-        targetWordCount: wordsPerChapter,
-      };
-    }
-    
-    // Match section lines (e.g., "- Section 1.1: Title" or "  - Title")
-    const sectionMatch = trimmedLine.match(/^[-•]\s*(?:Section\s+\d+\.\d+:\s*)?(.+)$/);
-    if (sectionMatch && currentChapter) {
-      currentChapter.sections.push(sectionMatch[1].trim());
-    }
-  }
-  
-  if (currentChapter) {
-    chapters.push(currentChapter);
-  }
-
-  // If no chapters were parsed, create a default structure
-  if (chapters.length === 0) {
-    for (let i = 1; i <= 8; i++) {
-      chapters.push({
-        number: i,
-        title: `Chapter ${i}`,
-        sections: [`Introduction`, `Core Concepts`, `Practical Examples`, `Advanced Topics`, `Summary`],
-        targetWordCount: wordsPerChapter,
-      });
-    }
-  }
-
-  return chapters;
-}
-
 // Create the improved workflow
 export const improvedEducationalContentWorkflow = createWorkflow({
   id: "improved-educational-content-workflow",
@@ -681,13 +1701,29 @@ export const improvedEducationalContentWorkflow = createWorkflow({
     topic: z.string(),
     bookGenerated: z.boolean(),
     finalWordCount: z.number(),
+    wordBudget: wordBudgetReportSchema.optional(),
     qualityScore: z.number(),
     completedAt: z.string(),
     bookPath: z.string().optional(),
+    exports: z.array(bookExportSchema).optional(),
   }),
 })
   .then(initializeAndPlanStep)
+  .then(approveOutlineStep)
   .then(generateAllContentStep)
   .then(reviewContentStep)
+  .dountil(reviseContentStep, async ({ inputData }) =>
+    inputData.approvedForPublication ||
+    inputData.sectionIssues.length === 0 ||
+    inputData.revisionRound >= REVIEW_MAX_REVISION_ROUNDS
+  )
+  // Repeats while the editor keeps asking for revisions
+  .dountil(approvePublicationStep, async ({ inputData }) =>
+    inputData.editorDecision?.decision !== 'request-revisions'
+  )
+  .then(generateQuizzesStep)
+  .then(generateExercisesStep)
+  .then(buildGlossaryStep)
+  .then(buildIndexStep)
   .then(generateFinalPDFStep)
   .commit();